@@ -0,0 +1,255 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import { parseLine, initialState, splitLines, type ParseState } from './parse.ts';
+import type { Barcode, QRCode, Diagnostic } from './types.ts';
+
+// Document model of ReceiptLine source, without rendering.
+// Lines are numbered from 1, and character ranges are offsets in the line (normalized to NFC, end is exclusive).
+
+export type SourceRange = {
+	line: number;
+	start: number;
+	end: number;
+};
+
+export type ReceiptDocument = {
+	type: 'document';
+	lines: LineNode[];
+	diagnostics: Diagnostic[]; // diagnostics of parsing (layout is not checked)
+};
+
+export type LineNode = {
+	type: 'line';
+	source: SourceRange;
+	properties: LineProperties; // properties in effect after this line
+	columns: ColumnNode[];
+};
+
+export type LineProperties = {
+	wrap: boolean;
+	border: number; // -1 (line), 0 (none), 1 (space), 2
+	width: number[]; // empty for auto, -1 for star, positive for fixed width
+	align: number; // 0 (left), 1 (center), 2 (right)
+	option: ParseState['option'];
+};
+
+export type ColumnNode = TextColumnNode | PropertyColumnNode | RuleColumnNode | InvalidColumnNode;
+
+type ColumnBase = {
+	source: SourceRange;
+	align: number; // text alignment in the column from spaces: 0 (left), 1 (center), 2 (right)
+	width: number; // -1 for star, 0 for zero width, positive for fixed width
+	border: number;
+	wrap: boolean;
+	alignment: number; // line alignment
+};
+
+export type TextColumnNode = ColumnBase & {
+	type: 'text';
+	runs: (TextRunNode | LineBreakNode)[];
+};
+
+export type TextRunNode = {
+	type: 'run';
+	source: SourceRange;
+	text: string; // unescaped text
+	ul: boolean;
+	em: boolean;
+	iv: boolean;
+	wh: number; // 0 (normal), 1 (double width), 2 (double height), 3 (double width and height), 4-7 (3-6 times)
+};
+
+export type LineBreakNode = {
+	type: 'break';
+	source: SourceRange;
+};
+
+export type PropertyColumnNode = ColumnBase & {
+	type: 'property';
+	members: Record<string, string>; // unescaped values with full keys (e.g., width for w)
+	code?: Barcode | QRCode;
+	image?: string;
+	command?: string;
+	comment?: string;
+	rules?: 'start' | 'stop';
+	error?: string; // invalid members
+};
+
+export type RuleColumnNode = ColumnBase & {
+	type: 'rule';
+	rule: '-' | '=';
+};
+
+export type InvalidColumnNode = ColumnBase & {
+	type: 'invalid';
+	error: string; // text with stray property delimiters
+};
+
+/**
+ * Parse ReceiptLine document to the document model.
+ * @param {string} doc ReceiptLine document
+ * @returns {ReceiptDocument} document model with source positions
+ */
+export function parse(doc: string): ReceiptDocument {
+	const state = initialState();
+	return {
+		type: 'document',
+		lines: splitLines(doc).map((text, i) => {
+			const line = i + 1;
+			state.lineNumber = line;
+			const columns = parseLine(text, state);
+			const ranges = columnRanges(text);
+			return {
+				type: 'line',
+				source: { line: line, start: 0, end: text.length },
+				properties: { wrap: state.wrap, border: state.border, width: [...state.width], align: state.align, option: { ...state.option } },
+				columns: columns.map((column, j): ColumnNode => {
+					// columns filled for the width property are at the end of the line
+					const range = ranges[j] ?? { start: text.length, end: text.length };
+					const base: ColumnBase = {
+						source: { line: line, ...range },
+						align: column.align,
+						width: column.width,
+						border: column.border,
+						wrap: column.wrap,
+						alignment: column.alignment
+					};
+					if (column.property) {
+						const members: Record<string, string> = {};
+						Object.entries(column.property).forEach(([key, value]) => {
+							if (value !== undefined) {
+								members[key] = value;
+							}
+						});
+						return {
+							...base,
+							type: 'property',
+							members: members,
+							...(column.code ? { code: column.code } : {}),
+							...(column.image !== undefined ? { image: column.image } : {}),
+							...(column.command !== undefined ? { command: column.command } : {}),
+							...(column.comment !== undefined ? { comment: column.comment } : {}),
+							...(column.vr ? { rules: column.vr === '+' ? 'start' as const : 'stop' as const } : {}),
+							...(column.error !== undefined ? { error: column.error } : {})
+						};
+					}
+					if (column.hr) {
+						return { ...base, type: 'rule', rule: column.hr };
+					}
+					if (column.text) {
+						return { ...base, type: 'text', runs: textRuns(column.text, text.slice(range.start, range.end), line, range.start) };
+					}
+					return { ...base, type: 'invalid', error: column.error ?? '' };
+				})
+			};
+		}),
+		diagnostics: state.diagnostics
+	};
+}
+
+/**
+ * Find the range of each column in the source line, as separated by parseLine.
+ * @param text source line
+ * @returns ranges without surrounding spaces
+ */
+function columnRanges(text: string): { start: number, end: number }[] {
+	// separators ('|' except '\|')
+	const separators: number[] = [];
+	for (let i = 0; i < text.length; i++) {
+		if (text[i] === '\\' && /[\\{|}]/.test(text[i + 1] ?? '')) {
+			i++;
+		}
+		else if (text[i] === '|') {
+			separators.push(i);
+		}
+	}
+	const bounds = [-1, ...separators, text.length];
+	let ranges = bounds.slice(1).map((end, i) => ({ start: (bounds[i] ?? -1) + 1, end: end }));
+	// remove '|' at the beginning of the first column and at the end of the last column
+	const trimmed = text.replace(/^[\t ]+|[\t ]+$/g, '');
+	if (trimmed.startsWith('|')) {
+		ranges = ranges.slice(1);
+	}
+	if (ranges.length > 1 && separators.length > 0 && text.slice((separators[separators.length - 1] ?? 0) + 1).trim() === '') {
+		ranges = ranges.slice(0, -1);
+	}
+	// trim spaces
+	return ranges.map(r => {
+		const column = text.slice(r.start, r.end);
+		const start = r.start + (column.length - column.replace(/^[\t ]+/, '').length);
+		return { start: start, end: Math.max(start, r.end - (column.length - column.replace(/[\t ]+$/, '').length)) };
+	});
+}
+
+/**
+ * Convert parsed text of a column to text runs with text decoration.
+ * @param parsed text and delimiters from parseLine
+ * @param source column source
+ * @param line line number
+ * @param offset column position in the line
+ * @returns text runs and line breaks
+ */
+function textRuns(parsed: string[], source: string, line: number, offset: number): (TextRunNode | LineBreakNode)[] {
+	// find delimiters ('_', '"', '`', '^', '\n') in the source, the same way as parseLine splits text
+	const ranges: { start: number, end: number }[] = [];
+	let start = 0;
+	for (let i = 0; i < source.length; i++) {
+		const c = source[i] ?? '';
+		if (c === '\\') {
+			if (source[i + 1] === 'n') {
+				ranges.push({ start: start, end: i }, { start: i, end: i + 2 });
+				start = i + 2;
+			}
+			i++;
+		}
+		else if (/[_"`^]/.test(c)) {
+			let end = i + 1;
+			while (c === '^' && source[end] === '^') {
+				end++;
+			}
+			ranges.push({ start: start, end: i }, { start: i, end: end });
+			start = end;
+			i = end - 1;
+		}
+	}
+	ranges.push({ start: start, end: source.length });
+	const range = (i: number): SourceRange => {
+		const r = ranges.length === parsed.length ? ranges[i] : undefined;
+		return { line: line, start: offset + (r?.start ?? 0), end: offset + (r?.end ?? source.length) };
+	};
+	// text decoration flags
+	let ul = false;
+	let em = false;
+	let iv = false;
+	let wh = 0;
+	const runs: (TextRunNode | LineBreakNode)[] = [];
+	parsed.forEach((text, i) => {
+		if (i % 2 === 0) {
+			if (text.length > 0) {
+				runs.push({ type: 'run', source: range(i), text: text, ul: ul, em: em, iv: iv, wh: wh });
+			}
+			return;
+		}
+		switch (text) {
+			case '\n':
+				runs.push({ type: 'break', source: range(i) });
+				break;
+			case '_':
+				ul = !ul;
+				break;
+			case '"':
+				em = !em;
+				break;
+			case '`':
+				iv = !iv;
+				break;
+			default:
+				const d = Math.min(text.length, 7);
+				wh = wh === d ? 0 : d;
+				break;
+		}
+	});
+	return runs;
+}
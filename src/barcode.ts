@@ -313,7 +313,7 @@ const ean: Record<string, string[]> = {
 	e: 'bbbaaa,bbabaa,bbaaba,bbaaab,babbaa,baabba,baaabb,bababa,babaab,baabab'.split(',')
 };
 // convert UPC-E to UPC-A:
-function upcetoa(e: number[]): number[] {
+export function upcetoa(e: number[]): number[] {
 	const a = e.slice(0, 3);
 	switch (e[6]) {
 		case 0: case 1: case 2:
@@ -0,0 +1,175 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import type { Encoding } from './types.ts';
+
+/**
+ * Replacement of characters that the code page cannot represent,
+ * a string or a function that returns the replacement of the character.
+ */
+export type Fallback = string | ((c: string) => string);
+
+/**
+ * Text in a code page, from segment().
+ */
+export type Segment = {
+	encoding: Encoding;
+	index: number; // position in the text (UTF-16 code units)
+	text: string;
+};
+
+// single byte code pages of the multilingual encoding, in order of preference
+export const multilingual: Encoding[] = ['cp437', 'cp1252', 'cp858', 'cp852', 'cp866', 'cp860', 'cp863', 'cp865'];
+
+// characters of single byte code pages (0x80 - 0xff, \ufffd: undefined)
+const singleByte: Partial<Record<Encoding, string>> = {
+	cp437: 'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒáíóúñÑªº¿⌐¬½¼¡«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00a0',
+	cp852: 'ÇüéâäůćçłëŐőîŹÄĆÉĹĺôöĽľŚśÖÜŤťŁ×čáíóúĄąŽžĘę¬źČş«»░▒▓│┤ÁÂĚŞ╣║╗╝Żż┐└┴┬├─┼Ăă╚╔╩╦╠═╬¤đĐĎËďŇÍÎě┘┌█▄ŢŮ▀ÓßÔŃńňŠšŔÚŕŰýÝţ´\u00ad˝˛ˇ˘§÷¸°¨˙űŘř■\u00a0',
+	cp858: 'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜø£Ø×ƒáíóúñÑªº¿®¬½¼¡«»░▒▓│┤ÁÂÀ©╣║╗╝¢¥┐└┴┬├─┼ãÃ╚╔╩╦╠═╬¤ðÐÊËÈ€ÍÎÏ┘┌█▄¦Ì▀ÓßÔÒõÕµþÞÚÛÙýÝ¯´\u00ad±‗¾¶§÷¸°¨·¹³²■\u00a0',
+	cp860: 'ÇüéâãàÁçêÊèÍÔìÃÂÉÀÈôõòÚùÌÕÜ¢£Ù₧ÓáíóúñÑªº¿Ò¬½¼¡«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00a0',
+	cp863: 'ÇüéâÂà¶çêëèïî‗À§ÉÈÊôËÏûù¤ÔÜ¢£ÙÛƒ¦´óú¨¸³¯Î⌐¬½¼¾«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00a0',
+	cp865: 'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜø£Ø₧ƒáíóúñÑªº¿⌐¬½¼¡«¤░▒▓│┤╡╢╖╕╣║╗╝╜╛┐└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00a0',
+	cp866: 'АБВГДЕЖЗИЙКЛМНОПРСТУФХЦЧШЩЪЫЬЭЮЯабвгдежзийклмноп░▒▓│┤╡╢╖╕╣║╗╝╜╛┐└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀рстуфхцчшщъыьэюяЁёЄєЇїЎў°∙·√№¤■\u00a0',
+	cp1252: '€\ufffd‚ƒ„…†‡ˆ‰Š‹Œ\ufffdŽ\ufffd\ufffd‘’“”•–—˜™š›œ\ufffdžŸ\u00a0¡¢£¤¥¦§¨©ª«¬\u00ad®¯°±²³´µ¶·¸¹º»¼½¾¿ÀÁÂÃÄÅÆÇÈÉÊËÌÍÎÏÐÑÒÓÔÕÖ×ØÙÚÛÜÝÞßàáâãäåæçèéêëìíîïðñòóôõö÷øùúûüýþÿ',
+	tis620: '\ufffd'.repeat(33) + 'กขฃคฅฆงจฉชซฌญฎฏฐฑฒณดตถทธนบปผฝพฟภมยรฤลฦวศษสหฬอฮฯะัาำิีึืฺุู' + '\ufffd'.repeat(4) + '฿เแโใไๅๆ็่้๊๋์ํ๎๏๐๑๒๓๔๕๖๗๘๙๚๛' + '\ufffd'.repeat(4),
+};
+
+// double byte code pages, decoded by TextDecoder (Encoding Standard)
+const doubleByte: Partial<Record<Encoding, { label: 'shift_jis' | 'gbk' | 'gb18030' | 'euc-kr' | 'big5', single: number[], lead: number[], trail: number[] }>> = {
+	cp932: { label: 'shift_jis', single: range(0xa1, 0xdf), lead: [...range(0x81, 0x9f), ...range(0xe0, 0xfc)], trail: [...range(0x40, 0x7e), ...range(0x80, 0xfc)] },
+	shiftjis: { label: 'shift_jis', single: range(0xa1, 0xdf), lead: [...range(0x81, 0x9f), ...range(0xe0, 0xef)], trail: [...range(0x40, 0x7e), ...range(0x80, 0xfc)] },
+	cp936: { label: 'gbk', single: [0x80], lead: range(0x81, 0xfe), trail: [...range(0x40, 0x7e), ...range(0x80, 0xfe)] },
+	// four byte sequences of GB18030 are not supported
+	gb18030: { label: 'gb18030', single: [], lead: range(0x81, 0xfe), trail: [...range(0x40, 0x7e), ...range(0x80, 0xfe)] },
+	cp949: { label: 'euc-kr', single: [], lead: range(0x81, 0xfe), trail: [...range(0x41, 0x5a), ...range(0x61, 0x7a), ...range(0x81, 0xfe)] },
+	ksc5601: { label: 'euc-kr', single: [], lead: range(0xa1, 0xfe), trail: range(0xa1, 0xfe) },
+	cp950: { label: 'big5', single: [], lead: range(0xa1, 0xf9), trail: [...range(0x40, 0x7e), ...range(0xa1, 0xfe)] },
+	big5: { label: 'big5', single: [], lead: range(0xa1, 0xf9), trail: [...range(0x40, 0x7e), ...range(0xa1, 0xfe)] }
+};
+
+// encoding tables (character to bytes), built on first use
+const tables: Partial<Record<Encoding, Map<string, string>>> = {};
+
+/**
+ * Generate a range of numbers.
+ * @param start first number
+ * @param end last number
+ * @returns numbers from start to end
+ */
+function range(start: number, end: number): number[] {
+	return Array.from({ length: end - start + 1 }, (_, i) => start + i);
+}
+
+/**
+ * Get the encoding table of a code page.
+ * @param encoding code page (multilingual uses cp437)
+ * @returns map of characters to bytes (one character per byte), printable ASCII characters are not included
+ */
+function table(encoding: Encoding): Map<string, string> {
+	const cached = tables[encoding];
+	if (cached) {
+		return cached;
+	}
+	const map = new Map<string, string>();
+	const double = doubleByte[encoding];
+	if (double) {
+		const decoder = new TextDecoder(double.label);
+		const add = (bytes: number[]): void => {
+			const c = decoder.decode(new Uint8Array(bytes));
+			// skip invalid sequences and sequences of several characters, and keep the first sequence of each character
+			if (Array.from(c).length === 1 && c !== '\ufffd' && c.charCodeAt(0) > 0x7f && !map.has(c)) {
+				map.set(c, String.fromCharCode(...bytes));
+			}
+		};
+		double.single.forEach(b => add([b]));
+		double.lead.forEach(l => double.trail.forEach(t => add([l, t])));
+	}
+	else {
+		Array.from(singleByte[encoding] ?? singleByte.cp437 ?? '').forEach((c, i) => {
+			if (c !== '\ufffd' && !map.has(c)) {
+				map.set(c, String.fromCharCode(0x80 + i));
+			}
+		});
+	}
+	tables[encoding] = map;
+	return map;
+}
+
+/**
+ * Check whether a code page can represent a character.
+ * @param c character
+ * @param encoding code page (multilingual uses any of its code pages)
+ * @returns true if the character is printable ASCII or in the code page
+ */
+export function encodable(c: string, encoding: Encoding): boolean {
+	if (encoding === 'multilingual') {
+		return multilingual.some(e => encodable(c, e));
+	}
+	return /^[ -~]$/.test(c) || table(encoding).has(c);
+}
+
+/**
+ * Encode text with a code page.
+ * @param text text to encode
+ * @param encoding code page (multilingual uses cp437, see segment())
+ * @param fallback replacement of characters that the code page cannot represent (default: '?')
+ * @returns encoded text (one character per byte)
+ */
+export function encode(text: string, encoding: Encoding, fallback: Fallback = '?'): string {
+	const map = table(encoding);
+	let r = '';
+	for (const c of text) {
+		const b = /^[ -~]$/.test(c) ? c : map.get(c);
+		if (b !== undefined) {
+			r += b;
+		}
+		else {
+			// replacement is also encoded, and dropped where it cannot be represented
+			r += encode(typeof fallback === 'function' ? fallback(c) : fallback, encoding, '');
+		}
+	}
+	return r;
+}
+
+/**
+ * Split text into segments that each fit a code page, for the multilingual encoding.
+ * The code page is switched only for characters that the current code page cannot represent,
+ * to the code page that represents the most characters that follow.
+ * Characters that no code page can represent stay in the current code page.
+ * @param text text to split
+ * @param encodings code pages to choose from (default: code pages of the multilingual encoding)
+ * @param current code page selected before the text (default: the first code page)
+ * @returns segments in order
+ */
+export function segment(text: string, encodings: Encoding[] = multilingual, current?: Encoding): Segment[] {
+	const chars = Array.from(text);
+	// number of characters from position i that the code page can represent
+	const run = (encoding: Encoding, i: number): number => {
+		let n = 0;
+		while (i + n < chars.length && encodable(chars[i + n] ?? '', encoding)) {
+			n++;
+		}
+		return n;
+	};
+	const result: Segment[] = [];
+	let page = current ?? encodings[0] ?? 'cp437';
+	let index = 0;
+	chars.forEach((c, i) => {
+		if (!encodable(c, page)) {
+			const pages = encodings.filter(e => encodable(c, e));
+			if (pages.length > 0) {
+				page = pages.reduce((a, e) => run(e, i) > run(a, i) ? e : a);
+			}
+		}
+		const last = result[result.length - 1];
+		if (last && last.encoding === page) {
+			last.text += c;
+		}
+		else {
+			result.push({ encoding: page, index: index, text: c });
+		}
+		index += c.length;
+	});
+	return result;
+}
@@ -0,0 +1,48 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import { describe, expect, test } from 'bun:test';
+import { format, stringify } from './format.ts';
+import { parse } from './ast.ts';
+
+// document model without source ranges
+const model = (doc: string): unknown => JSON.parse(JSON.stringify(parse(doc), (key, value) => key === 'source' ? undefined : value));
+
+// documents and their formatted source
+const cases: [string, string][] = [
+	['|_Under_ "em" `iv` ^wide^ ^^tall^^ ^^^big|', '_Under_ "em" `iv` ^wide^ ^^tall^^ ^^^big'],
+	['\\-\n\\=\n\\---', '\\-\n\\=\n\\---'],
+	['|~ padded ~|', '~ padded ~'],
+	['|\\~ \\| \\{ \\} \\\\|', '\\~ \\| \\{ \\} \\\\'],
+	['||text||', '||text||'],
+	['|a| |b|', '|a||b|'],
+	['left |  | right', '|left || right|'],
+	['a\\nb', 'a\\nb'],
+	['{w:10,*;b:line}\n|x|y|\n{w:auto}', '{width: 10,*; border: line}\n|x|y|\n{width: auto}'],
+	['{c:123;o:code128,2,40,hri}', '{code: 123; option: code128,2,40,hri}'],
+	['{t:a\\;b}', '{text: a\\;b}'],
+	['---\n=', '---\n==='],
+];
+
+describe('format', () => {
+	for (const [doc, formatted] of cases) {
+		test(`round trips ${JSON.stringify(doc)}`, () => {
+			expect(format(doc)).toBe(formatted);
+			expect(model(format(doc))).toEqual(model(doc));
+			// formatted source is stable
+			expect(format(formatted)).toBe(formatted);
+		});
+	}
+
+	test('pads columns of tables', () => {
+		const formatted = format('|a|bbbb|\n|ccc|d|\n| e|', { pad: true });
+		expect(formatted).toBe('|  a  | bbbb |\n| ccc |  d   |\n| e|');
+		expect(model(formatted)).toEqual(model('|a|bbbb|\n|ccc|d|\n| e|'));
+	});
+
+	test('stringifies the document model', () => {
+		// decoration is not closed at the end of the column
+		expect(stringify(parse('"x"'))).toBe('"x');
+	});
+});
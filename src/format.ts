@@ -0,0 +1,183 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import { parse, type ReceiptDocument, type LineNode, type ColumnNode, type TextRunNode, type LineBreakNode } from './ast.ts';
+import { BaseTarget } from './targets/base.ts';
+import type { Encoding } from './types.ts';
+
+// Serializer of the document model to ReceiptLine source.
+// Source positions are not used, so parse(format(doc)) equals parse(doc) except for the source ranges.
+
+/**
+ * Options of the serializer.
+ */
+export type FormatOptions = {
+	pad?: boolean; // pad columns of consecutive lines with the same number of columns, like the printed table
+	encoding?: Encoding; // code page to measure the width of the source (e.g., wide characters of cp932)
+};
+
+/**
+ * Write ReceiptLine document from the document model.
+ * @param {ReceiptDocument} document document model
+ * @param {FormatOptions} [options] serializer options
+ * @returns {string} ReceiptLine document
+ */
+export function stringify(document: ReceiptDocument, options: FormatOptions = {}): string {
+	const target = new BaseTarget();
+	const measure = (text: string) => target.measureText(text, options.encoding ?? 'cp437');
+	// source of each column without alignment spaces
+	const lines = document.lines.map(line => line.columns.map(column => columnSource(column)));
+	// column widths of each line (padding)
+	const widths = lines.map(() => [] as number[]);
+	if (options.pad) {
+		let start = 0;
+		while (start < lines.length) {
+			// consecutive lines with the same number of columns (text only)
+			let end = start + 1;
+			if (isTable(document.lines[start])) {
+				while (end < lines.length && isTable(document.lines[end]) && lines[end]?.length === lines[start]?.length) {
+					end++;
+				}
+				const w = (lines[start] ?? []).map((_, i) => lines.slice(start, end).reduce((a, line) => Math.max(a, measure(line[i] ?? '')), 0));
+				widths.fill(w, start, end);
+			}
+			start = end;
+		}
+	}
+	return document.lines.map((line, i) => {
+		const sources = lines[i] ?? [];
+		// single column with center alignment (e.g., properties and horizontal rules)
+		if (line.columns.length === 1 && line.columns[0]?.align === 1) {
+			return sources[0] ?? '';
+		}
+		const columns = line.columns.map((column, j) => {
+			const source = sources[j] ?? '';
+			const w = widths[i]?.[j];
+			// spaces around the column text determine the text alignment
+			if (w === undefined) {
+				return column.align === 0 ? source + ' ' : column.align === 2 ? ' ' + source : source;
+			}
+			const space = w - measure(source);
+			switch (column.align) {
+				case 0:
+					return source + ' '.repeat(space + 2);
+				case 2:
+					return ' '.repeat(space + 2) + source;
+				default:
+					return ' '.repeat(1 + Math.floor(space / 2)) + source + ' '.repeat(1 + Math.ceil(space / 2));
+			}
+		});
+		return '|' + columns.join('|') + '|';
+	}).join('\n');
+}
+
+/**
+ * Format ReceiptLine document (abbreviations of property keys are expanded, special characters are escaped).
+ * @param {string} doc ReceiptLine document
+ * @param {FormatOptions} [options] serializer options
+ * @returns {string} formatted ReceiptLine document
+ */
+export function format(doc: string, options: FormatOptions = {}): string {
+	return stringify(parse(doc), options);
+}
+
+/**
+ * Check if the line is a table row to pad.
+ * @param line line node
+ * @returns true if the line has several text columns
+ */
+function isTable(line: LineNode | undefined): boolean {
+	return !!line && line.columns.length > 1 && line.columns.every(column => column.type === 'text');
+}
+
+/**
+ * Write the source of a column without alignment spaces.
+ * @param column column node
+ * @returns column source
+ */
+function columnSource(column: ColumnNode): string {
+	switch (column.type) {
+		case 'text':
+			return textSource(column.runs);
+		case 'property':
+			// invalid members are kept as written
+			if (column.error !== undefined) {
+				return column.error;
+			}
+			// members without values have no effect
+			return '{' + Object.entries(column.members)
+				.filter(([, value]) => value.length > 0)
+				.map(([key, value]) => key + ': ' + escapeProperty(value))
+				.join('; ') + '}';
+		case 'rule':
+			return column.rule.repeat(3);
+		case 'invalid':
+			return column.error;
+	}
+}
+
+/**
+ * Write text runs with text decoration and escape sequences.
+ * @param runs text runs and line breaks
+ * @returns column source
+ */
+function textSource(runs: (TextRunNode | LineBreakNode)[]): string {
+	// text decoration flags
+	let ul = false;
+	let em = false;
+	let iv = false;
+	let wh = 0;
+	let r = '';
+	runs.forEach(run => {
+		if (run.type === 'break') {
+			r += '\\n';
+			return;
+		}
+		// toggle text decoration
+		if (run.ul !== ul) {
+			r += '_';
+			ul = run.ul;
+		}
+		if (run.em !== em) {
+			r += '"';
+			em = run.em;
+		}
+		if (run.iv !== iv) {
+			r += '`';
+			iv = run.iv;
+		}
+		if (run.wh !== wh) {
+			// the same scale cancels it, other scales replace it
+			r += '^'.repeat(run.wh === 0 ? wh : run.wh);
+			wh = run.wh;
+		}
+		r += escapeText(run.text);
+	});
+	// spaces at both ends of the column are alignment
+	r = r.replace(/^ | $/g, '~');
+	// text that is only '-' or '=' is a horizontal rule or paper cut
+	return /^(-+|=+)$/.test(r) ? '\\' + r : r;
+}
+
+/**
+ * Escape special characters in text.
+ * @param text text
+ * @returns escaped text
+ */
+export function escapeText(text: string): string {
+	return text.replace(/[\\|{}~_"`^]/g, '\\$&');
+}
+
+/**
+ * Escape special characters in property values.
+ * @param value property value
+ * @returns escaped value
+ */
+export function escapeProperty(value: string): string {
+	return value
+		.replace(/[\\|{};]/g, '\\$&')
+		.replace(/\n/g, '\\n')
+		// control codes, and spaces at both ends that are trimmed
+		.replace(/[\x00-\x1f\x7f]|^[\t ]|[\t ]$/g, c => '\\x' + c.charCodeAt(0).toString(16).padStart(2, '0'));
+}
@@ -0,0 +1,172 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import { describe, expect, test } from 'bun:test';
+import { deflateSync } from 'node:zlib';
+import { decodePng, monochrome } from './image.ts';
+
+// CRC-32 of PNG chunks
+const crc32 = (data: Uint8Array): number => {
+	let crc = 0xffffffff;
+	for (const b of data) {
+		crc ^= b;
+		for (let k = 0; k < 8; k++) {
+			crc = crc & 1 ? 0xedb88320 ^ crc >>> 1 : crc >>> 1;
+		}
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+};
+
+// PNG chunk: length, type, data, CRC
+const chunk = (type: string, data: Uint8Array): Uint8Array => {
+	const r = new Uint8Array(data.length + 12);
+	const view = new DataView(r.buffer);
+	view.setUint32(0, data.length);
+	r.set(Array.from(type, c => c.charCodeAt(0)), 4);
+	r.set(data, 8);
+	view.setUint32(data.length + 8, crc32(r.subarray(4, data.length + 8)));
+	return r;
+};
+
+type Options = {
+	width: number;
+	height: number;
+	depth: number;
+	color: number;
+	interlace?: number;
+	palette?: number[];
+	transparency?: number[];
+};
+
+// PNG file of filtered scanlines
+const png = (options: Options, scanlines: number[]): Uint8Array => {
+	const ihdr = new Uint8Array(13);
+	const view = new DataView(ihdr.buffer);
+	view.setUint32(0, options.width);
+	view.setUint32(4, options.height);
+	ihdr.set([options.depth, options.color, 0, 0, options.interlace ?? 0], 8);
+	const chunks = [
+		Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+		chunk('IHDR', ihdr),
+		...(options.palette ? [chunk('PLTE', Uint8Array.from(options.palette))] : []),
+		...(options.transparency ? [chunk('tRNS', Uint8Array.from(options.transparency))] : []),
+		chunk('IDAT', new Uint8Array(deflateSync(Uint8Array.from(scanlines)))),
+		chunk('IEND', new Uint8Array(0)),
+	];
+	const r = new Uint8Array(chunks.reduce((a, c) => a + c.length, 0));
+	chunks.reduce((a, c) => (r.set(c, a), a + c.length), 0);
+	return r;
+};
+
+// filter rows of bytes with the filter type of each row
+const filter = (rows: number[][], bpp: number, types: number[]): number[] => rows.flatMap((row, y) => {
+	const previous = rows[y - 1] ?? row.map(() => 0);
+	const type = types[y] ?? 0;
+	return [type, ...row.map((x, i) => {
+		const a = row[i - bpp] ?? 0, b = previous[i] ?? 0, c = previous[i - bpp] ?? 0;
+		const p = a + b - c, pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+		const predictor = [0, a, b, a + b >> 1, pa <= pb && pa <= pc ? a : pb <= pc ? b : c][type] ?? 0;
+		return x - predictor & 255;
+	})];
+});
+
+// RGB pixels of 3 x 5 dots, one row for each filter type
+const rgb = [
+	[255, 0, 0, 0, 255, 0, 0, 0, 255],
+	[10, 20, 30, 200, 100, 50, 0, 0, 0],
+	[255, 255, 255, 128, 128, 128, 1, 2, 3],
+	[90, 80, 70, 60, 50, 40, 30, 20, 10],
+	[0, 128, 255, 255, 128, 0, 17, 34, 51],
+];
+
+// RGBA of RGB pixels
+const opaque = (rows: number[][]): number[] => rows.flatMap(row => row.flatMap((v, i) => i % 3 === 2 ? [v, 255] : [v]));
+
+describe('decodePng', () => {
+	test('reverses all filter types', async () => {
+		for (const types of [[0, 0, 0, 0, 0], [1, 1, 1, 1, 1], [2, 2, 2, 2, 2], [3, 3, 3, 3, 3], [4, 4, 4, 4, 4], [0, 1, 2, 3, 4]]) {
+			const image = await decodePng(png({ width: 3, height: 5, depth: 8, color: 2 }, filter(rgb, 3, types)));
+			expect(image.width).toBe(3);
+			expect(image.height).toBe(5);
+			expect(Array.from(image.data)).toEqual(opaque(rgb));
+		}
+	});
+
+	test('decodes palette images with transparency', async () => {
+		// 2 bits per index: 0 1 2 3 / 3 2 1 0
+		const image = await decodePng(png({ width: 4, height: 2, depth: 2, color: 3, palette: [0, 0, 0, 255, 0, 0, 0, 255, 0, 255, 255, 255], transparency: [255, 128] }, [0, 0b00011011, 0, 0b11100100]));
+		expect(Array.from(image.data)).toEqual([
+			0, 0, 0, 255, 255, 0, 0, 128, 0, 255, 0, 255, 255, 255, 255, 255,
+			255, 255, 255, 255, 0, 255, 0, 255, 255, 0, 0, 128, 0, 0, 0, 255,
+		]);
+	});
+
+	test('scales grayscale samples of low bit depths', async () => {
+		const image = await decodePng(png({ width: 3, height: 1, depth: 4, color: 0 }, [0, 0x0f, 0x50]));
+		expect(Array.from(image.data)).toEqual([0, 0, 0, 255, 255, 255, 255, 255, 85, 85, 85, 255]);
+		const bits = await decodePng(png({ width: 10, height: 1, depth: 1, color: 0 }, [0, 0b10100000, 0b01000000]));
+		expect(Array.from(bits.data).filter((_, i) => i % 4 === 0)).toEqual([255, 0, 255, 0, 0, 0, 0, 0, 0, 255]);
+	});
+
+	test('decodes 16-bit samples', async () => {
+		// RGBA with the most significant bytes 0x12, 0x34, 0x56, 0x78 and 0xff, 0x00, 0x80, 0xff
+		const rgba = await decodePng(png({ width: 2, height: 1, depth: 16, color: 6 }, [0, 0x12, 0x99, 0x34, 0x99, 0x56, 0x99, 0x78, 0x99, 0xff, 0xff, 0x00, 0x00, 0x80, 0x00, 0xff, 0xff]));
+		expect(Array.from(rgba.data)).toEqual([0x12, 0x34, 0x56, 0x78, 0xff, 0x00, 0x80, 0xff]);
+		// transparent color is compared with all 16 bits
+		const gray = await decodePng(png({ width: 2, height: 1, depth: 16, color: 0, transparency: [0x12, 0x34] }, [0, 0x12, 0x34, 0x12, 0x35]));
+		expect(Array.from(gray.data)).toEqual([0x12, 0x12, 0x12, 0, 0x12, 0x12, 0x12, 255]);
+	});
+
+	test('decodes gray and alpha', async () => {
+		const image = await decodePng(png({ width: 2, height: 1, depth: 8, color: 4 }, [0, 0x40, 0x80, 0xc0, 0xff]));
+		expect(Array.from(image.data)).toEqual([0x40, 0x40, 0x40, 0x80, 0xc0, 0xc0, 0xc0, 0xff]);
+	});
+
+	test('decodes Adam7 interlaced images', async () => {
+		// 5 x 5 gray dots, value 10 * y + x
+		const pixel = (x: number, y: number): number => 10 * y + x;
+		const passes = [[0, 0, 8, 8], [4, 0, 8, 8], [0, 4, 4, 8], [2, 0, 4, 4], [0, 2, 2, 4], [1, 0, 2, 2], [0, 1, 1, 2]];
+		const scanlines = passes.flatMap(([x0 = 0, y0 = 0, dx = 1, dy = 1]) => {
+			const rows: number[][] = [];
+			for (let y = y0; y < 5; y += dy) {
+				const row: number[] = [];
+				for (let x = x0; x < 5; x += dx) {
+					row.push(pixel(x, y));
+				}
+				if (row.length > 0) {
+					rows.push(row);
+				}
+			}
+			// filters of each pass start from a zero row
+			return filter(rows, 1, rows.map(() => 4));
+		});
+		const image = await decodePng(png({ width: 5, height: 5, depth: 8, color: 0, interlace: 1 }, scanlines));
+		const expected: number[] = [];
+		for (let y = 0; y < 5; y++) {
+			for (let x = 0; x < 5; x++) {
+				const v = pixel(x, y);
+				expected.push(v, v, v, 255);
+			}
+		}
+		expect(Array.from(image.data)).toEqual(expected);
+	});
+
+	test('rejects invalid and truncated data', async () => {
+		const file = png({ width: 3, height: 5, depth: 8, color: 2 }, filter(rgb, 3, [0, 0, 0, 0, 0]));
+		await expect(decodePng(file.slice(1))).rejects.toThrow('Invalid PNG signature');
+		await expect(decodePng(file.slice(0, 40))).rejects.toThrow('Truncated PNG data');
+		// IHDR without IDAT
+		await expect(decodePng(file.slice(0, 33))).rejects.toThrow('Invalid PNG data');
+		// scanlines of 4 of 5 rows
+		await expect(decodePng(png({ width: 3, height: 5, depth: 8, color: 2 }, filter(rgb.slice(0, 4), 3, [0, 0, 0, 0])))).rejects.toThrow('Truncated PNG data');
+	});
+});
+
+describe('monochrome', () => {
+	test('packs black dots of the threshold', () => {
+		const gray = [0, 100, 127, 128, 255, 0, 0, 0, 0];
+		const image = monochrome({ width: 9, height: 1, data: Uint8Array.from(gray.flatMap(v => [v, v, v, 255])) }, false);
+		expect(Array.from(image.data)).toEqual([0b11100111, 0b10000000]);
+	});
+});
@@ -0,0 +1,286 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import type { QRCode } from './types.ts';
+import type { BarcodeResult } from './barcode.ts';
+import { qrCode, EcLevel } from '@levischuck/tiny-qr';
+import { toPng } from '@levischuck/tiny-qr-png';
+
+export type DecodedImage = {
+	width: number;
+	height: number;
+	data: Uint8Array; // RGBA, 4 bytes per pixel, row-major
+};
+
+export type MonochromeImage = {
+	width: number;
+	height: number;
+	data: Uint8Array; // 1 bit per pixel (1: black), MSB first, rows padded to whole bytes
+};
+
+// Adam7 interlace passes: x start, y start, x step, y step
+const adam7 = [
+	[0, 0, 8, 8], [4, 0, 8, 8], [0, 4, 4, 8], [2, 0, 4, 4], [0, 2, 2, 4], [1, 0, 2, 2], [0, 1, 1, 2]
+] as const;
+
+/**
+ * Inflate zlib compressed data.
+ * @param data zlib stream
+ * @returns decompressed data
+ */
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+	const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Decode PNG image.
+ * @param bytes PNG file data
+ * @returns RGBA pixel data
+ */
+export async function decodePng(bytes: Uint8Array): Promise<DecodedImage> {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	if (bytes.length < 8 || view.getUint32(0) !== 0x89504e47 || view.getUint32(4) !== 0x0d0a1a0a) {
+		throw new Error('Invalid PNG signature');
+	}
+	let width = 0, height = 0, depth = 8, color = 0, interlace = 0;
+	let palette: Uint8Array = new Uint8Array(0);
+	let transparency: Uint8Array = new Uint8Array(0);
+	const idat: Uint8Array[] = [];
+	// read chunks
+	let p = 8;
+	while (p < bytes.length) {
+		if (p + 12 > bytes.length || p + view.getUint32(p) + 12 > bytes.length) {
+			throw new Error('Truncated PNG data');
+		}
+		const length = view.getUint32(p);
+		const type = String.fromCharCode(...bytes.subarray(p + 4, p + 8));
+		const chunk = bytes.subarray(p + 8, p + 8 + length);
+		if (type === 'IHDR') {
+			width = view.getUint32(p + 8);
+			height = view.getUint32(p + 12);
+			depth = chunk[8] ?? 8;
+			color = chunk[9] ?? 0;
+			interlace = chunk[12] ?? 0;
+		}
+		else if (type === 'PLTE') {
+			palette = chunk;
+		}
+		else if (type === 'tRNS') {
+			transparency = chunk;
+		}
+		else if (type === 'IDAT') {
+			idat.push(chunk);
+		}
+		else if (type === 'IEND') {
+			break;
+		}
+		p += length + 12;
+	}
+	if (width === 0 || height === 0 || idat.length === 0) {
+		throw new Error('Invalid PNG data');
+	}
+	// concatenate and decompress image data
+	const compressed = new Uint8Array(idat.reduce((a, c) => a + c.length, 0));
+	idat.reduce((a, c) => (compressed.set(c, a), a + c.length), 0);
+	const raw = await inflate(compressed);
+	// samples per pixel, bytes per complete pixel (at least 1)
+	const channels = ({ 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 } as Record<number, number>)[color] ?? 1;
+	const bpp = Math.max(1, channels * depth >> 3);
+	const data = new Uint8Array(width * height * 4);
+	// read sample n of a row
+	const sample = (row: Uint8Array, n: number): number => {
+		switch (depth) {
+			case 16:
+				return row[n * 2] ?? 0;
+			case 8:
+				return row[n] ?? 0;
+			default:
+				const bit = n * depth;
+				return ((row[bit >> 3] ?? 0) >> (8 - depth - (bit & 7))) & ((1 << depth) - 1);
+		}
+	};
+	// scale sample to 8 bits
+	const scale = (v: number): number => depth >= 8 ? v : Math.round(v * 255 / ((1 << depth) - 1));
+	// raw sample value for tRNS comparison
+	const sample16 = (row: Uint8Array, n: number): number => depth === 16 ? ((row[n * 2] ?? 0) << 8 | (row[n * 2 + 1] ?? 0)) : sample(row, n);
+	let offset = 0;
+	const passes = interlace ? adam7 : [[0, 0, 1, 1] as const];
+	for (const [x0, y0, dx, dy] of passes) {
+		const w = Math.ceil((width - x0) / dx);
+		const h = Math.ceil((height - y0) / dy);
+		if (w <= 0 || h <= 0) {
+			continue;
+		}
+		const stride = Math.ceil(w * channels * depth / 8);
+		if (offset + (stride + 1) * h > raw.length) {
+			throw new Error('Truncated PNG data');
+		}
+		let previous = new Uint8Array(stride);
+		for (let y = 0; y < h; y++) {
+			const filter = raw[offset] ?? 0;
+			const row = raw.slice(offset + 1, offset + 1 + stride);
+			offset += stride + 1;
+			// reverse filtering
+			for (let i = 0; i < stride; i++) {
+				const a = i >= bpp ? row[i - bpp]! : 0;
+				const b = previous[i]!;
+				const c = i >= bpp ? previous[i - bpp]! : 0;
+				let v = 0;
+				switch (filter) {
+					case 1:
+						v = a;
+						break;
+					case 2:
+						v = b;
+						break;
+					case 3:
+						v = a + b >> 1;
+						break;
+					case 4:
+						const q = a + b - c, pa = Math.abs(q - a), pb = Math.abs(q - b), pc = Math.abs(q - c);
+						v = pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+						break;
+					default:
+						break;
+				}
+				row[i] = row[i]! + v & 255;
+			}
+			previous = row;
+			// convert pixels to RGBA
+			for (let x = 0; x < w; x++) {
+				const d = ((y0 + y * dy) * width + x0 + x * dx) * 4;
+				switch (color) {
+					case 0: {
+						const g = scale(sample(row, x));
+						const t = transparency.length >= 2 && sample16(row, x) === (transparency[0]! << 8 | transparency[1]!);
+						data.set([g, g, g, t ? 0 : 255], d);
+						break;
+					}
+					case 2: {
+						const t = transparency.length >= 6 && [0, 1, 2].every(i => sample16(row, x * 3 + i) === (transparency[i * 2]! << 8 | transparency[i * 2 + 1]!));
+						data.set([sample(row, x * 3), sample(row, x * 3 + 1), sample(row, x * 3 + 2), t ? 0 : 255], d);
+						break;
+					}
+					case 3: {
+						const i = sample(row, x);
+						data.set([palette[i * 3] ?? 0, palette[i * 3 + 1] ?? 0, palette[i * 3 + 2] ?? 0, transparency[i] ?? 255], d);
+						break;
+					}
+					case 4: {
+						const g = sample(row, x * 2);
+						data.set([g, g, g, sample(row, x * 2 + 1)], d);
+						break;
+					}
+					case 6:
+						data.set([sample(row, x * 4), sample(row, x * 4 + 1), sample(row, x * 4 + 2), sample(row, x * 4 + 3)], d);
+						break;
+					default:
+						break;
+				}
+			}
+		}
+	}
+	return { width, height, data };
+}
+
+/**
+ * Convert image to grayscale composited over white paper.
+ * @param image RGBA pixel data
+ * @returns luminance per pixel (0: black, 255: white)
+ */
+export function grayscale(image: DecodedImage): Uint8Array {
+	const result = new Uint8Array(image.width * image.height);
+	for (let i = 0; i < result.length; i++) {
+		const r = image.data[i * 4]!, g = image.data[i * 4 + 1]!, b = image.data[i * 4 + 2]!, a = image.data[i * 4 + 3]!;
+		const y = (r * 299 + g * 587 + b * 114) / 1000;
+		result[i] = Math.round(255 - (255 - y) * a / 255);
+	}
+	return result;
+}
+
+/**
+ * Convert image to monochrome.
+ * @param image RGBA pixel data
+ * @param gradient use error diffusion (true) or threshold (false)
+ * @param threshold threshold for black dots (0-255)
+ * @returns packed monochrome image
+ */
+export function monochrome(image: DecodedImage, gradient: boolean = true, threshold: number = 128): MonochromeImage {
+	const { width, height } = image;
+	const stride = width + 7 >> 3;
+	const data = new Uint8Array(stride * height);
+	const gray = Float32Array.from(grayscale(image));
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const i = y * width + x;
+			const v = gray[i]!;
+			const black = v < threshold;
+			if (black) {
+				data[y * stride + (x >> 3)]! |= 0x80 >> (x & 7);
+			}
+			// Floyd-Steinberg error diffusion
+			if (gradient) {
+				const e = v - (black ? 0 : 255);
+				if (x + 1 < width) {
+					gray[i + 1]! += e * 7 / 16;
+				}
+				if (y + 1 < height) {
+					if (x > 0) {
+						gray[i + width - 1]! += e * 3 / 16;
+					}
+					gray[i + width]! += e * 5 / 16;
+					if (x + 1 < width) {
+						gray[i + width + 1]! += e / 16;
+					}
+				}
+			}
+		}
+	}
+	return { width, height, data };
+}
+
+/**
+ * Draw barcode bars as a monochrome image (without human readable interpretation).
+ * @param bar barcode form generated from symbol
+ * @returns packed monochrome image
+ */
+export function barcodeImage(bar: BarcodeResult): MonochromeImage {
+	const widths = bar.widths ?? [];
+	const width = widths.reduce((a, w) => a + w, 0);
+	const height = bar.height ?? 0;
+	const stride = width + 7 >> 3;
+	const data = new Uint8Array(stride * height);
+	// draw the first row, odd elements are bars
+	widths.reduce((p, w, i) => {
+		if (i % 2 === 1) {
+			for (let x = p; x < p + w; x++) {
+				data[x >> 3]! |= 0x80 >> (x & 7);
+			}
+		}
+		return p + w;
+	}, 0);
+	// copy the first row
+	for (let y = 1; y < height; y++) {
+		data.copyWithin(y * stride, 0, stride);
+	}
+	return { width, height, data };
+}
+
+/**
+ * Draw QR Code as a monochrome image.
+ * @param symbol QR Code information (data, type, cell, level)
+ * @returns packed monochrome image
+ */
+export async function qrcodeImage(symbol: QRCode): Promise<MonochromeImage> {
+	const qr = qrCode({
+		data: symbol.data,
+		ec: symbol.level === 'l' ? EcLevel.L : symbol.level === 'm' ? EcLevel.M : symbol.level === 'q' ? EcLevel.Q : EcLevel.H,
+	});
+	const { bytes } = await toPng(qr, {
+		moduleSize: symbol.cell,
+		margin: symbol.quietZone ? 4 : 0,
+	});
+	return monochrome(await decodePng(bytes), false);
+}
@@ -14,23 +14,54 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 
-import { createLine, parseLine, parseOption, type ParseState } from './parse.ts';
-import type { Printer } from './types.ts';
+import { createLine, parseLine, parseOption, initialState, splitLines, type ParseState } from './parse.ts';
+import type { Printer, ParsedPrinter, BaseTargetInterface, Diagnostic } from './types.ts';
+import type { MonochromeImage } from './image.ts';
+import { RasterTarget } from './targets/raster.ts';
+import { MultiplexTarget, shareLayout } from './targets/multiplex.ts';
+import type { Substitution } from './transliterate.ts';
+import { expandTemplate } from './template.ts';
 
 // Export target classes
 export { BaseTarget } from './targets/base.ts';
 export { SvgTarget } from './targets/svg.ts';
 export { HtmlTarget } from './targets/html.ts';
 export { AuditTarget } from './targets/audit.ts';
+export { EscPosTarget } from './targets/escpos.ts';
+export { StarTarget } from './targets/star.ts';
+export { StarLineTarget } from './targets/starline.ts';
+export { ImpactTarget } from './targets/impact.ts';
+export { EposTarget } from './targets/epos.ts';
+export { WebPrntTarget } from './targets/webprnt.ts';
+export { ZplTarget } from './targets/zpl.ts';
+export { RasterTarget } from './targets/raster.ts';
+export { PngTarget } from './targets/png.ts';
+export { EscPosRasterTarget } from './targets/escposraster.ts';
+export { PdfTarget } from './targets/pdf.ts';
+export { TextTarget } from './targets/text.ts';
+export { AnsiTarget } from './targets/ansi.ts';
+export { LayoutTarget } from './targets/layout.ts';
+export { CanvasTarget } from './targets/canvas.ts';
+export { MultiplexTarget } from './targets/multiplex.ts';
+export { encode, encodable, segment, multilingual, type Fallback, type Segment } from './encoding.ts';
+export { transliterate, type Substitution } from './transliterate.ts';
+export { parse } from './ast.ts';
+export { format, stringify, type FormatOptions } from './format.ts';
+export { expand } from './template.ts';
+export type { ReceiptDocument, SourceRange, LineNode, LineProperties, ColumnNode, TextColumnNode, TextRunNode, LineBreakNode, PropertyColumnNode, RuleColumnNode, InvalidColumnNode } from './ast.ts';
+export type { Diagnostic } from './types.ts';
+export type { MonochromeImage } from './image.ts';
+export type { CanvasContext } from './targets/canvas.ts';
+export type { LayoutDocument, LayoutItem, LayoutLine, LayoutText, LayoutSegment, LayoutImage, LayoutBarcode, LayoutQRCode, LayoutCut } from './targets/layout.ts';
 
 /**
  * Transform ReceiptLine document to printer commands or SVG/HTML output.
  * This is an async function to support targets that need async operations (e.g., PNG generation).
  * @param {string} doc ReceiptLine document
  * @param {object} [printer] printer configuration
- * @returns {Promise<{content: string, width: number, height: number}>} result with output string, width, and height
+ * @returns {Promise<{content: string, width: number, height: number, substitutions: Substitution[], diagnostics: Diagnostic[]}>} result with output string, width, height, transliterated characters, and diagnostics
  */
-export async function transform(doc: string, printer: Printer): Promise<{content: string, width: number, height: number}> {
+export async function transform(doc: string, printer: Printer): Promise<{content: string, width: number, height: number, substitutions: Substitution[], diagnostics: Diagnostic[]}> {
 	// validate printer configuration
 	const ptr = parseOption(printer);
 
@@ -38,60 +69,225 @@ export async function transform(doc: string, printer: Printer): Promise<{content
 	await ptr.target.lock();
 
 	try {
-		// initialize state variables
-		const state = {
-			wrap: true,
-			border: 1,
-			width: [],
-			align: 1,
-			option: { type: 'code128', width: 2, height: 72, hri: false, cell: 3, level: 'l', quietZone: false },
-			line: 'waiting',
-			rules: { left: 0, width: 0, right: 0, widths: [] }
-		} as ParseState;
-		// append commands to start printing
-		let result = await ptr.target.open(ptr);
-		// strip bom
-		if (doc[0] === '\ufeff') {
-			doc = doc.slice(1);
-		}
-		// parse each line and generate commands (sequential to maintain state order)
-		const lines = doc.normalize().split(/\n|\r\n|\r/);
-		const res: string[] = [];
-		for (const line of lines) {
-			res.push(await createLine(parseLine(line, state), ptr, state));
-		}
-		// if rules is not finished
-		switch (state.line) {
-			case 'ready':
-				// set state to cancel rules
-				state.line = 'waiting';
-				break;
-			case 'running':
-			case 'horizontal':
-				// append commands to stop rules
-				res.push(
-					await ptr.target.normal() +
-					await ptr.target.area(state.rules.left, state.rules.width, state.rules.right) +
-					await ptr.target.align(0) +
-					await ptr.target.vrstop(state.rules.widths) +
-					await ptr.target.vrlf(false)
-				);
-				state.line = 'waiting';
-				break;
-			default:
-				break;
-		}
-		// append commands
-		result += res.join('');
-		// append commands to end printing (await in case target has async close)
-		result += await ptr.target.close();
+		const state = initialState();
+		const result = await render(doc, ptr, state);
 		return {
 			content: result,
 			width: ptr.target.calculatedWidth(),
-			height: Math.round(ptr.target.calculatedHeight())
+			height: Math.round(ptr.target.calculatedHeight()),
+			substitutions: state.substitutions,
+			diagnostics: state.diagnostics
 		};
 	} finally {
 		// Always unlock the target
 		ptr.target.unlock();
 	}
 }
+
+/**
+ * Transform ReceiptLine document to printer commands or images as bytes.
+ * The target converts its output, so printer commands are not UTF-8 encoded and PNG images are not base64 encoded.
+ * @param {string} doc ReceiptLine document
+ * @param {object} [printer] printer configuration
+ * @returns {Promise<{content: Uint8Array, width: number, height: number, substitutions: Substitution[], diagnostics: Diagnostic[]}>} result with output bytes, width, height, transliterated characters, and diagnostics
+ */
+export async function transformBytes(doc: string, printer: Printer): Promise<{content: Uint8Array, width: number, height: number, substitutions: Substitution[], diagnostics: Diagnostic[]}> {
+	// validate printer configuration
+	const ptr = parseOption(printer);
+
+	// Lock the target (wait with timeout if already locked)
+	await ptr.target.lock();
+
+	try {
+		const state = initialState();
+		const result = await render(doc, ptr, state);
+		return {
+			content: ptr.target.contentBytes(result),
+			width: ptr.target.calculatedWidth(),
+			height: Math.round(ptr.target.calculatedHeight()),
+			substitutions: state.substitutions,
+			diagnostics: state.diagnostics
+		};
+	} finally {
+		// Always unlock the target
+		ptr.target.unlock();
+	}
+}
+
+/**
+ * Transform ReceiptLine template with data to printer commands or SVG/HTML output.
+ * Values of placeholders are escaped for the context, blocks are expanded before parsing, and diagnostics refer to the template lines.
+ * @param {string} template ReceiptLine document with placeholders ({{path}} or {{& path}} for markup)
+ * @param {unknown} data values of placeholders
+ * @param {object} [printer] printer configuration
+ * @returns {Promise<{content: string, width: number, height: number, substitutions: Substitution[], diagnostics: Diagnostic[]}>} result with output string, width, height, transliterated characters, and diagnostics
+ */
+export async function transformTemplate(template: string, data: unknown, printer: Printer): Promise<{content: string, width: number, height: number, substitutions: Substitution[], diagnostics: Diagnostic[]}> {
+	const expansion = expandTemplate(template, data);
+	const result = await transform(expansion.doc, printer);
+	return {
+		...result,
+		diagnostics: result.diagnostics.map(diagnostic => ({ ...diagnostic, line: expansion.lines[diagnostic.line - 1] ?? diagnostic.line }))
+	};
+}
+
+/**
+ * Check ReceiptLine document for invalid properties and content that is not printed as written.
+ * The document is laid out for the printer, since removed columns and dropped characters depend on the characters per line.
+ * @param {string} doc ReceiptLine document
+ * @param {object} [printer] printer configuration
+ * @returns {Promise<Diagnostic[]>} diagnostics in the order of lines
+ */
+export async function validate(doc: string, printer: Printer = {}): Promise<Diagnostic[]> {
+	const result = await transform(doc, printer);
+	return result.diagnostics;
+}
+
+/**
+ * Transform ReceiptLine document to a packed bitmap for custom printer drivers.
+ * The receipt is drawn by the raster target, the same way as the PNG target.
+ * @param {string} doc ReceiptLine document
+ * @param {object} [printer] printer configuration (target is a RasterTarget instance, or a new one is used)
+ * @returns {Promise<MonochromeImage>} 1 bit per pixel (1: black), MSB first, rows padded to whole bytes
+ */
+export async function transformToBitmap(doc: string, printer: Printer = {}): Promise<MonochromeImage> {
+	const target = printer.target instanceof RasterTarget ? printer.target : new RasterTarget();
+	const ptr = parseOption({ ...printer, target: target });
+	await target.lock();
+	try {
+		await render(doc, ptr, initialState());
+		return target.bitmap();
+	} finally {
+		target.unlock();
+	}
+}
+
+/**
+ * Transform ReceiptLine document for several targets at once.
+ * Each line is parsed once, and the commands are forwarded to the targets that share the layout,
+ * so each target keeps its own characters per line (e.g., HtmlTarget with a font width).
+ * @param {string} doc ReceiptLine document
+ * @param {object} printer printer configuration (target is ignored)
+ * @param {Array<string|BaseTargetInterface>} targets target names or instances
+ * @returns {Promise<Array<{content: string, width: number, height: number, substitutions: Substitution[], diagnostics: Diagnostic[]}>>} result of each target in the order of targets
+ */
+export async function transformMany(doc: string, printer: Printer, targets: (string | BaseTargetInterface)[]): Promise<{content: string, width: number, height: number, substitutions: Substitution[], diagnostics: Diagnostic[]}[]> {
+	// validate printer configuration for each target
+	const ptrs = targets.map(target => parseOption({ ...printer, target: target }));
+	if (new Set(ptrs.map(ptr => ptr.target)).size < ptrs.length) {
+		throw new Error('Duplicate target');
+	}
+	// Lock the targets (wait with timeout if already locked)
+	const locked: BaseTargetInterface[] = [];
+	try {
+		for (const ptr of ptrs) {
+			await ptr.target.lock();
+			locked.push(ptr.target);
+		}
+		// parse each line once
+		const state = initialState();
+		const lines = splitLines(doc).map((line, i) => {
+			state.lineNumber = i + 1;
+			return parseLine(line, state);
+		});
+		// append commands to start printing (characters per line are set by each target)
+		const contents: string[] = [];
+		const substitutions: Substitution[][] = [];
+		const diagnostics: Diagnostic[][] = [];
+		for (const ptr of ptrs) {
+			contents.push(await ptr.target.open(ptr));
+		}
+		// targets with the same characters per line, text measurement, and glyphs share the layout
+		const groups: { ptr: ParsedPrinter, indexes: number[] }[] = [];
+		ptrs.forEach((ptr, i) => {
+			const group = groups.find(g => shareLayout(g.ptr.target, ptr.target));
+			if (group) {
+				group.indexes.push(i);
+			}
+			else {
+				groups.push({ ptr: ptr, indexes: [i] });
+			}
+		});
+		for (const group of groups) {
+			const multiplex = new MultiplexTarget();
+			multiplex.setTargets(group.indexes.map(i => ptrs[i]!.target));
+			const ptr: ParsedPrinter = { ...group.ptr, target: multiplex };
+			// generate commands from the parsed lines (columns are resized while generating)
+			const groupState = initialState();
+			for (const [i, line] of lines.entries()) {
+				groupState.lineNumber = i + 1;
+				await createLine(line.map(column => ({ ...column })), ptr, groupState);
+			}
+			await stopRules(ptr, groupState);
+			// append commands to end printing
+			await multiplex.close();
+			group.indexes.forEach((i, j) => {
+				contents[i] += multiplex.contents[j] ?? '';
+				substitutions[i] = groupState.substitutions;
+				// diagnostics of parsing and of the layout of the group
+				diagnostics[i] = [...state.diagnostics, ...groupState.diagnostics].sort((a, b) => a.line - b.line);
+			});
+		}
+		return ptrs.map((ptr, i) => ({
+			content: contents[i] ?? '',
+			width: ptr.target.calculatedWidth(),
+			height: Math.round(ptr.target.calculatedHeight()),
+			substitutions: substitutions[i] ?? [],
+			diagnostics: diagnostics[i] ?? []
+		}));
+	} finally {
+		// Always unlock the targets
+		locked.forEach(target => target.unlock());
+	}
+}
+
+/**
+ * Generate commands to stop rules if rules is not finished.
+ * @param ptr validated printer configuration
+ * @param state state variables
+ * @returns output string
+ */
+async function stopRules(ptr: ParsedPrinter, state: ParseState): Promise<string> {
+	switch (state.line) {
+		case 'ready':
+			// set state to cancel rules
+			state.line = 'waiting';
+			return '';
+		case 'running':
+		case 'horizontal':
+			// append commands to stop rules
+			state.line = 'waiting';
+			return await ptr.target.normal() +
+				await ptr.target.area(state.rules.left, state.rules.width, state.rules.right) +
+				await ptr.target.align(0) +
+				await ptr.target.vrstop(state.rules.widths) +
+				await ptr.target.vrlf(false);
+		default:
+			return '';
+	}
+}
+
+/**
+ * Generate output of each line of ReceiptLine document.
+ * @param doc ReceiptLine document
+ * @param ptr validated printer configuration
+ * @param state state variables
+ * @returns output string
+ */
+async function render(doc: string, ptr: ParsedPrinter, state: ParseState): Promise<string> {
+	// append commands to start printing
+	let result = await ptr.target.open(ptr);
+	// parse each line and generate commands (sequential to maintain state order)
+	const res: string[] = [];
+	for (const [i, line] of splitLines(doc).entries()) {
+		state.lineNumber = i + 1;
+		res.push(await createLine(parseLine(line, state), ptr, state));
+	}
+	// if rules is not finished
+	res.push(await stopRules(ptr, state));
+	// append commands
+	result += res.join('');
+	// append commands to end printing (await in case target has async close)
+	result += await ptr.target.close();
+	return result;
+}
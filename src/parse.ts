@@ -3,7 +3,25 @@ import { BaseTarget } from './targets/base.ts';
 import { SvgTarget } from './targets/svg.ts';
 import { HtmlTarget } from './targets/html.ts';
 import { AuditTarget } from './targets/audit.ts';
-import type { Barcode, Encoding, ParsedPrinter, Printer, QRCode, BaseTargetInterface } from './types.ts';
+import { EscPosTarget } from './targets/escpos.ts';
+import { ImpactTarget } from './targets/impact.ts';
+import { EposTarget } from './targets/epos.ts';
+import { WebPrntTarget } from './targets/webprnt.ts';
+import { ZplTarget } from './targets/zpl.ts';
+import { RasterTarget } from './targets/raster.ts';
+import { PngTarget } from './targets/png.ts';
+import { EscPosRasterTarget } from './targets/escposraster.ts';
+import { PdfTarget } from './targets/pdf.ts';
+import { TextTarget } from './targets/text.ts';
+import { AnsiTarget } from './targets/ansi.ts';
+import { LayoutTarget } from './targets/layout.ts';
+import { CanvasTarget } from './targets/canvas.ts';
+import { MultiplexTarget } from './targets/multiplex.ts';
+import { StarTarget } from './targets/star.ts';
+import { StarLineTarget } from './targets/starline.ts';
+import type { Barcode, Encoding, ParsedPrinter, Printer, QRCode, BaseTargetInterface, Diagnostic } from './types.ts';
+import { generate as generateBarcode, type BarcodeSymbol } from './barcode.ts';
+import { transliterate, type Substitution } from './transliterate.ts';
 
 // QR Code is a registered trademark of DENSO WAVE INCORPORATED.
 
@@ -52,6 +70,9 @@ export type ParseState = {
 		quietZone: boolean;
 	};
 	line: 'waiting' | 'ready' | 'running' | 'horizontal';
+	substitutions: Substitution[]; // transliterated characters
+	lineNumber: number; // current line in the document (from 1)
+	diagnostics: Diagnostic[];
 	rules: {
 		left: number;
 		width: number;
@@ -66,6 +87,49 @@ type WrappedTextLine = {
 	height: number;
 };
 
+/**
+ * Initialize state variables.
+ * @returns state variables
+ */
+export function initialState(): ParseState {
+	return {
+		wrap: true,
+		border: 1,
+		width: [],
+		align: 1,
+		option: { type: 'code128', width: 2, height: 72, hri: false, cell: 3, level: 'l', quietZone: false },
+		line: 'waiting',
+		rules: { left: 0, width: 0, right: 0, widths: [] },
+		substitutions: [],
+		lineNumber: 0,
+		diagnostics: []
+	} as ParseState;
+}
+
+/**
+ * Split ReceiptLine document into lines.
+ * @param doc ReceiptLine document
+ * @returns lines
+ */
+export function splitLines(doc: string): string[] {
+	// strip bom
+	if (doc[0] === '\ufeff') {
+		doc = doc.slice(1);
+	}
+	return doc.normalize().split(/\n|\r\n|\r/);
+}
+
+/**
+ * Report a problem in the current line.
+ * @param state state variables
+ * @param severity error (content is not printed as written) or warning (content is adjusted)
+ * @param code diagnostic code
+ * @param message description
+ */
+function report(state: ParseState, severity: Diagnostic['severity'], code: string, message: string): void {
+	state.diagnostics.push({ line: state.lineNumber, severity: severity, code: code, message: message });
+}
+
 /**
  * Validate printer configuration.
  * @param printer printer configuration
@@ -87,18 +151,53 @@ export function parseOption(printer?: Partial<Printer>): ParsedPrinter {
 		target = untypedTarget;
 	} else if (untypedTarget instanceof AuditTarget) {
 		target = untypedTarget;
+	} else if (untypedTarget instanceof ImpactTarget) {
+		target = untypedTarget;
+	} else if (untypedTarget instanceof EscPosTarget) {
+		target = untypedTarget;
+	} else if (untypedTarget instanceof EposTarget) {
+		target = untypedTarget;
+	} else if (untypedTarget instanceof WebPrntTarget) {
+		target = untypedTarget;
+	} else if (untypedTarget instanceof ZplTarget) {
+		target = untypedTarget;
+	} else if (untypedTarget instanceof PngTarget) {
+		target = untypedTarget;
+	} else if (untypedTarget instanceof EscPosRasterTarget) {
+		target = untypedTarget;
+	} else if (untypedTarget instanceof RasterTarget) {
+		target = untypedTarget;
+	} else if (untypedTarget instanceof PdfTarget) {
+		target = untypedTarget;
+	} else if (untypedTarget instanceof AnsiTarget) {
+		target = untypedTarget;
+	} else if (untypedTarget instanceof TextTarget) {
+		target = untypedTarget;
+	} else if (untypedTarget instanceof LayoutTarget) {
+		target = untypedTarget;
+	} else if (untypedTarget instanceof CanvasTarget) {
+		target = untypedTarget;
+	} else if (untypedTarget instanceof MultiplexTarget) {
+		target = untypedTarget;
+	} else if (untypedTarget instanceof StarLineTarget) {
+		target = untypedTarget;
+	} else if (untypedTarget instanceof StarTarget) {
+		target = untypedTarget;
 	} else if (untypedTarget instanceof BaseTarget) {
 		target = untypedTarget;
 	} else {
 		target = new SvgTarget();
 	}
+	// impact printers have fewer and wider characters (40 or 42 columns)
+	const impact = target instanceof ImpactTarget;
 	return {
-		cpl: p.cpl || 48,
-		charWidth: p.charWidth || 12,
+		cpl: p.cpl || (impact ? 40 : 48),
+		charWidth: p.charWidth || (impact ? 14 : 12),
 		encoding: encoding,
 		spacing: !!p.spacing,
 		margin: p.margin || 0,
 		marginRight: p.marginRight || 0,
+		transliterate: p.transliterate ? (typeof p.transliterate === 'object' ? p.transliterate : {}) : undefined,
 		target: target
 	};
 }
@@ -156,15 +255,18 @@ export function parseLine(columns: string, state: ParseState): ParsedColumn[] {
 						const abbr: Record<string, string> = { a: 'align', b: 'border', c: 'code', i: 'image', o: 'option', t: 'text', w: 'width', x: 'command', _: 'comment' };
 						// parse key-value pair
 						if (!/^[\t ]*$/.test(member)) {
-							const replaced = member.replace(/^[\t ]*([A-Za-z_]\w*)[\t ]*:[\t ]*([^\t ].*?)[\t ]*$/,
-								(match: string, key: string, value: string): string => {
-									const expandedKey = key.replace(/^[abciotwx_]$/, m => abbr[m] || m);
-									obj[expandedKey] = parseEscape(value.replace(/\\n/g, '\n'));
-									return match;
-								});
-							if (replaced === member) {
+							const pair = member.match(/^[\t ]*([A-Za-z_]\w*)[\t ]*:[\t ]*([^\t ].*?)[\t ]*$/);
+							if (pair) {
+								const expandedKey = (pair[1] ?? '').replace(/^[abciotwx_]$/, m => abbr[m] || m);
+								obj[expandedKey] = parseEscape((pair[2] ?? '').replace(/\\n/g, '\n'));
+								if (!/^(align|border|code|image|option|text|width|command|comment)$/.test(expandedKey)) {
+									report(state, 'warning', 'unknown-property', `Unknown property "${pair[1]}"`);
+								}
+							}
+							else {
 								// invalid members
 								result.error = element;
+								report(state, 'error', 'invalid-property', `Invalid property member "${member.trim()}"`);
 							}
 						}
 						return obj;
@@ -175,6 +277,9 @@ export function parseLine(columns: string, state: ParseState): ParsedColumn[] {
 					if ('text' in result.property && result.property.text) {
 						const c = result.property.text.toLowerCase();
 						state.wrap = !/^nowrap$/.test(c);
+						if (!/^(wrap|nowrap)$/.test(c)) {
+							report(state, 'warning', 'invalid-value', `Invalid text "${result.property.text}", wrap is used`);
+						}
 					}
 					// parse border property
 					if ('border' in result.property && result.property.border) {
@@ -182,6 +287,9 @@ export function parseLine(columns: string, state: ParseState): ParsedColumn[] {
 						const border: Record<string, number> = { 'line': -1, 'space': 1, 'none': 0 };
 						const previous = state.border;
 						state.border = /^(line|space|none)$/.test(c) ? (border[c] ?? 1) : /^\d+$/.test(c) && Number(c) <= 2 ? Number(c) : 1;
+						if (!/^(line|space|none)$/.test(c) && !(/^\d+$/.test(c) && Number(c) <= 2)) {
+							report(state, 'warning', 'invalid-value', `Invalid border "${result.property.border}", space is used`);
+						}
 						// start rules
 						if (previous >= 0 && state.border < 0) {
 							result.vr = '+';
@@ -195,12 +303,18 @@ export function parseLine(columns: string, state: ParseState): ParsedColumn[] {
 					if ('width' in result.property && result.property.width) {
 						const width = result.property.width.toLowerCase().split(/[\t ]+|,/);
 						state.width = width.find(c => /^auto$/.test(c)) ? [] : width.map(c => /^\*$/.test(c) ? -1 : /^\d+$/.test(c) ? Number(c) : 0);
+						width.filter(c => !/^(auto|\*|\d+)$/.test(c)).forEach(c => {
+							report(state, 'warning', 'invalid-value', `Invalid width "${c}", 0 is used`);
+						});
 					}
 					// parse align property
 					if ('align' in result.property && result.property.align) {
 						const c = result.property.align.toLowerCase();
 						const align: Record<string, number> = { 'left': 0, 'center': 1, 'right': 2 };
 						state.align = /^(left|center|right)$/.test(c) ? (align[c] ?? 1) : 1;
+						if (!/^(left|center|right)$/.test(c)) {
+							report(state, 'warning', 'invalid-value', `Invalid align "${result.property.align}", center is used`);
+						}
 					}
 					// parse option property
 					if ('option' in result.property && result.property.option) {
@@ -214,6 +328,12 @@ export function parseLine(columns: string, state: ParseState): ParsedColumn[] {
 							level: (option.find(c => /^[lmqh]$/.test(c)) || 'l') as 'l' | 'm' | 'q' | 'h',
 							quietZone: false
 						};
+						// numbers are module width and height of barcodes, or cell size of 2D codes
+						const valid = (c: string) => /^(upc|ean|jan|code39|itf|codabar|nw7|code93|code128|qrcode|hri|[lmqh])$/.test(c) ||
+							/^\d+$/.test(c) && (state.option.type === 'qrcode' ? Number(c) >= 3 && Number(c) <= 8 : Number(c) >= 2 && Number(c) <= 4 || Number(c) >= 24 && Number(c) <= 240);
+						option.filter(c => c.length > 0 && !valid(c)).forEach(c => {
+							report(state, 'warning', 'invalid-value', `Invalid option "${c}", default is used`);
+						});
 					}
 					// parse code property
 					if ('code' in result.property && result.property.code) {
@@ -254,6 +374,7 @@ export function parseLine(columns: string, state: ParseState): ParsedColumn[] {
 			// remove invalid property delimiter
 			else if (/[{}]/.test(element)) {
 				result.error = element;
+				report(state, 'error', 'invalid-delimiter', `Column with stray property delimiter is removed: "${element}"`);
 			}
 			// parse horizontal rule of special character in text
 			else if (array.length === 1 && /^-+$|^=+$/.test(element)) {
@@ -332,9 +453,10 @@ function parseEscape(chars: string): string {
  * Wrap text.
  * @param column parsed column object
  * @param printer printer configuration
+ * @param state state variables
  * @returns wrapped text, text position, and text height
  */
-function wrapText(column: ParsedColumn & { text: string[] }, printer: ParsedPrinter): WrappedTextLine[] {
+function wrapText(column: ParsedColumn & { text: string[] }, printer: ParsedPrinter, state: ParseState): WrappedTextLine[] {
 	const result: WrappedTextLine[] = [];
 	// remaining spaces
 	let space: number = column.width;
@@ -351,8 +473,17 @@ function wrapText(column: ParsedColumn & { text: string[] }, printer: ParsedPrin
 	column.text.forEach((text: string, i: number) => {
 		// process text
 		if (i % 2 === 0) {
+			// replace characters that the code page cannot represent
+			if (printer.transliterate) {
+				text = transliterate(text, printer.encoding, printer.transliterate, state.substitutions);
+			}
 			// if text is not empty
 			let t: string[] = printer.target.arrayFrom(text, printer.encoding);
+			// characters that the target draws as a replacement
+			const missing = [...new Set(t.filter(c => !printer.target.printable(c)))];
+			if (missing.length > 0) {
+				report(state, 'warning', 'glyph-missing', `No glyphs for "${missing.join('')}", a replacement is printed`);
+			}
 			while (t.length > 0) {
 				// measure character width
 				let w: number = 0;
@@ -382,6 +513,7 @@ function wrapText(column: ParsedColumn & { text: string[] }, printer: ParsedPrin
 				// if character is too big
 				if (w > column.width) {
 					// do not output
+					report(state, 'warning', 'character-dropped', `Character "${t[0]}" is wider than the column and is dropped`);
 					t = t.slice(1);
 					continue;
 				}
@@ -445,9 +577,17 @@ export async function createLine(line: ParsedColumn[], printer: ParsedPrinter, s
 	const column: ParsedColumn = line[0] ?? { align: 1, text: [''], wrap: true, border: 0, width: 0, alignment: 1 };
 	// remove zero width columns
 	let columns: ParsedColumn[] = line.filter(el => el.width !== 0);
+	const hidden: number = line.filter(el => el.width === 0 && el.text?.some((t, i) => i % 2 === 0 && t.length > 0)).length;
+	if (text && hidden > 0) {
+		report(state, 'warning', 'column-removed', `${hidden} columns with zero width are removed`);
+	}
 	// remove overflowing columns
 	if (text) {
+		const count = columns.length;
 		columns = columns.slice(0, Math.floor(column.border < 0 ? (printer.target.cpl - 1) / 2 : (printer.target.cpl + column.border) / (column.border + 1)));
+		if (columns.length < count) {
+			report(state, 'warning', 'column-removed', `${count - columns.length} of ${count} columns do not fit in ${printer.target.cpl} characters per line and are removed`);
+		}
 	}
 	// fixed columns
 	const f: ParsedColumn[] = columns.filter(el => el.width > 0);
@@ -481,7 +621,7 @@ export async function createLine(line: ParsedColumn[], printer: ParsedPrinter, s
 	// process text
 	if (text) {
 		// wrap text
-		const cols: WrappedTextLine[][] = columns.map(column => wrapText(column as ParsedColumn & { text: string[] }, printer));
+		const cols: WrappedTextLine[][] = columns.map(column => wrapText(column as ParsedColumn & { text: string[] }, printer, state));
 		// vertical line spacing
 		const widths: number[] = columns.map(column => column.width);
 		// rules
@@ -519,6 +659,9 @@ export async function createLine(line: ParsedColumn[], printer: ParsedPrinter, s
 		state.rules = { left: left, width: width, right: right, widths: widths };
 		// maximum number of wraps
 		const row: number = column.wrap ? cols.reduce((a, col) => Math.max(a, col.length), 1) : 1;
+		if (cols.some(col => col.length > row)) {
+			report(state, 'warning', 'text-truncated', 'Text that does not fit in the column is not printed (text: nowrap)');
+		}
 		// sort text
 		for (let j = 0; j < row; j++) {
 			// append commands to set print area and line alignment
@@ -689,6 +832,13 @@ export async function createLine(line: ParsedColumn[], printer: ParsedPrinter, s
 		}
 		// process barcode
 		else {
+			// check barcode data
+			if (!generateBarcode({ quietZone: false, ...column.code } as BarcodeSymbol).widths) {
+				report(state, 'error', 'invalid-barcode', `Invalid ${column.code.type} data "${column.code.data}"`);
+			}
+			else if (!printer.target.barcodeFits(column.code, width)) {
+				report(state, 'warning', 'barcode-replaced', `Barcode is wider than ${width} characters, its data is printed as text`);
+			}
 			// append commands to print barcode
 			result.push(
 				await printer.target.normal() +
@@ -0,0 +1,23 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import { describe, expect, test } from 'bun:test';
+import { transform } from '../index.ts';
+
+describe('AnsiTarget', () => {
+	test('draws barcodes with half block characters in black on white', async () => {
+		const result = await transform('{c:1234;o:code128,2,24,hri}', { cpl: 40, target: 'ansi' });
+		const row = '\x1b[30;107m     █▐ █▌▐▐▌▐█ ▌ ▌█ ▐ ▌▐█▌█ ▐█▐▐▌     \x1b[0m \n';
+		expect(result.content).toBe(row + row + '                  1234                  \n');
+		expect(result.diagnostics).toEqual([]);
+	});
+
+	test('prints barcodes wider than the line as text', async () => {
+		const result = await transform('{c:1234;o:code128,2,24,hri}', { cpl: 24, target: 'ansi' });
+		expect(result.content).toBe('    [CODE128: 1234]     \n');
+		expect(result.diagnostics).toEqual([
+			{ line: 1, severity: 'warning', code: 'barcode-replaced', message: 'Barcode is wider than 24 characters, its data is printed as text' }
+		]);
+	});
+});
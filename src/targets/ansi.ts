@@ -0,0 +1,109 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import { TextTarget } from './text.ts';
+import type { Encoding, QRCode, Barcode } from '../types.ts';
+import { generate as generateBarcode, type BarcodeSymbol } from '../barcode.ts';
+import { qrcodeImage } from '../image.ts';
+import type { GridStyle } from './grid.ts';
+
+// select graphic rendition
+const sgr = (s: GridStyle): string => `\x1b[0${s.ul ? ';4' : ''}${s.em ? ';1' : ''}${s.iv ? ';7' : ''}m`;
+
+// black on white for symbols to scan from the screen
+const paper = '\x1b[30;107m';
+
+/**
+ * ANSI terminal target class for ReceiptLine commands.
+ * Lines are laid out like the text target, with SGR codes for underlined, bold, and inverse text.
+ * Barcodes and QR Codes are drawn with block characters in black on white, so they can be scanned from the screen.
+ */
+export class AnsiTarget extends TextTarget {
+	// print aligned rows of block characters in black on white:
+	protected rows(rows: string[]): string {
+		return rows.map(row => {
+			const columns = Array.from(row).length;
+			const indent = this.left + Math.max(Math.floor((this.width - columns) * this.alignment / 2), 0);
+			return this.line(' '.repeat(indent) + paper + row + '\x1b[0m', indent + columns);
+		}).join('');
+	}
+
+	// feed new line: SGR
+	override async lf(): Promise<string> {
+		// scaled characters keep their columns with spaces
+		const columns = this.left + this.grid.line.length;
+		let current = '\x1b[0m';
+		const style = (s: GridStyle): string => {
+			// rules and text share the character set
+			const r = sgr(s);
+			const changed = r !== current;
+			current = r;
+			return changed ? r : '';
+		};
+		return this.line(' '.repeat(this.left) + this.grid.flush(1, style, (c, rule) => rule ? this.rule(c) : c), columns);
+	}
+
+	// print QR Code as half block characters:
+	override async qrcode(symbol: QRCode, encoding: Encoding): Promise<string> {
+		if (symbol.data.length === 0) {
+			return '';
+		}
+		// one module per column and two modules per character, with the quiet zone for scanners
+		const img = await qrcodeImage({ ...symbol, cell: 1, quietZone: true });
+		const stride = img.width + 7 >> 3;
+		const dot = (x: number, y: number): number => y < img.height && (img.data[y * stride + (x >> 3)] ?? 0) & 0x80 >> (x & 7) ? 1 : 0;
+		const rows: string[] = [];
+		for (let y = 0; y < img.height; y += 2) {
+			let row = '';
+			for (let x = 0; x < img.width; x++) {
+				row += halfBlocks[dot(x, y) << 1 | dot(x, y + 1)];
+			}
+			rows.push(row);
+		}
+		return this.rows(rows);
+	}
+
+	// barcode row of half block characters, one module per half column:
+	protected barcodeRow(symbol: Barcode): string | undefined {
+		const bar = generateBarcode({ ...symbol, width: 1 } as BarcodeSymbol);
+		if (!bar.widths) {
+			return undefined;
+		}
+		// odd elements are bars, with the quiet zone for scanners
+		const modules: number[] = [...Array(10).fill(0), ...bar.widths.flatMap((w, i) => Array(w).fill(i % 2)), ...Array(10).fill(0)];
+		let row = '';
+		for (let x = 0; x < modules.length; x += 2) {
+			row += sideBlocks[(modules[x] ?? 0) << 1 | (modules[x + 1] ?? 0)];
+		}
+		return row;
+	}
+
+	// barcodes wider than the print area are printed as text:
+	override barcodeFits(symbol: Barcode, width: number): boolean {
+		return Array.from(this.barcodeRow(symbol) ?? '').length <= width;
+	}
+
+	// print barcode as half block characters:
+	override async barcode(symbol: Barcode, encoding: Encoding): Promise<string> {
+		const bar = generateBarcode({ ...symbol, width: 1 } as BarcodeSymbol);
+		const row = this.barcodeRow(symbol);
+		if (row === undefined) {
+			return '';
+		}
+		// clipped bars cannot be scanned, so the data is printed like the text target
+		if (Array.from(row).length > this.width) {
+			return await super.barcode(symbol, encoding);
+		}
+		// one line per two character heights
+		const height = Math.max(Math.round(symbol.height / (this.charWidth * 4)), 2);
+		const text = this.rows(Array(height).fill(row));
+		return text + (bar.hri && bar.text ? this.placeholder(bar.text, encoding) : '');
+	}
+}
+
+// half block characters (upper dot, lower dot)
+const halfBlocks: Record<number, string> = { 0: ' ', 1: '▄', 2: '▀', 3: '█' };
+
+// half block characters (left dot, right dot)
+const sideBlocks: Record<number, string> = { 0: ' ', 1: '▐', 2: '▌', 3: '█' };
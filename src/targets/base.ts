@@ -498,5 +498,33 @@ export class BaseTarget implements BaseTargetInterface {
 	calculatedHeight(): number {
 		return 0;
 	}
+
+	/**
+	 * Convert output to bytes.
+	 * @param {string} content output of the target
+	 * @returns {Uint8Array} UTF-8 encoded output
+	 */
+	contentBytes(content: string): Uint8Array {
+		return new TextEncoder().encode(content);
+	}
+
+	/**
+	 * Check if the target has a glyph of the character.
+	 * @param {string} c character (element of arrayFrom)
+	 * @returns {boolean} true unless the character is drawn as a replacement
+	 */
+	printable(c: string): boolean {
+		return true;
+	}
+
+	/**
+	 * Check if the target prints the barcode in the print area.
+	 * @param {object} symbol barcode information (data, type, width, height, hri)
+	 * @param {number} width width of the print area (unit: characters)
+	 * @returns {boolean} true unless the barcode is replaced because it is too wide
+	 */
+	barcodeFits(symbol: Barcode, width: number): boolean {
+		return true;
+	}
 }
 
@@ -0,0 +1,108 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import { describe, expect, test } from 'bun:test';
+import { transform } from '../index.ts';
+import { CanvasTarget, type CanvasContext } from './canvas.ts';
+import { indexedPng } from '@levischuck/tiny-png';
+import { encodeBase64 } from '@levischuck/tiny-encodings';
+
+// context that records method calls and property assignments in order
+function recorder(): { context: CanvasContext, calls: unknown[][] } {
+	const calls: unknown[][] = [];
+	const values: Record<string, unknown> = {};
+	const context = new Proxy(values, {
+		get: (t, key: string) => key in t ? t[key] : (...args: unknown[]) => calls.push([key, ...args]),
+		set: (t, key: string, value) => (calls.push([key, '=', value]), t[key] = value, true),
+	});
+	return { context: context as unknown as CanvasContext, calls: calls };
+}
+
+// 4 x 2 dots: ##.. / .##.
+const png = async (): Promise<string> => encodeBase64(await indexedPng(Uint8Array.from([1, 1, 0, 0, 0, 1, 1, 0]), 4, 2, [[255, 255, 255], [0, 0, 0]]));
+
+const setup = [['fillStyle', '=', '#000'], ['strokeStyle', '=', '#000'], ['lineWidth', '=', 2], ['textAlign', '=', 'center'], ['textBaseline', '=', 'bottom']];
+
+describe('CanvasTarget', () => {
+	test('draws decorated text and rules in order', async () => {
+		const { context, calls } = recorder();
+		const target = new CanvasTarget();
+		target.setContext(context);
+		const result = await transform('|`Hi`| _ab_|\n---', { cpl: 10, target: target });
+		expect(calls).toEqual([
+			...setup,
+			// inverted text
+			['save'],
+			['fillRect', 12, 0, 24, 24],
+			['fillStyle', '=', '#fff'],
+			['save'],
+			['font', '=', '22px monospace'],
+			['save'], ['translate', 18, 24], ['scale', 1, 1], ['fillText', 'H', 0, 0], ['restore'],
+			['save'], ['translate', 30, 24], ['scale', 1, 1], ['fillText', 'i', 0, 0], ['restore'],
+			['restore'],
+			['restore'],
+			// underlined text
+			['save'],
+			['save'],
+			['font', '=', '22px monospace'],
+			['save'], ['translate', 102, 24], ['scale', 1, 1], ['fillText', 'a', 0, 0], ['restore'],
+			['save'], ['translate', 114, 24], ['scale', 1, 1], ['fillText', 'b', 0, 0], ['restore'],
+			['restore'],
+			['fillRect', 96, 22, 24, 2],
+			['restore'],
+			// horizontal rule
+			['beginPath'], ['moveTo', 0, 36], ['lineTo', 120, 36], ['stroke'],
+		]);
+		expect(result.content).toBe('');
+		expect(result.width).toBe(120);
+		expect(result.height).toBe(48);
+	});
+
+	test('draws a dashed line at paper cuts', async () => {
+		const { context, calls } = recorder();
+		const target = new CanvasTarget();
+		target.setContext(context);
+		await transform('=', { cpl: 10, target: target });
+		const dashes = calls.slice(setup.length);
+		expect(dashes[0]).toEqual(['beginPath']);
+		expect(dashes.filter(call => call[0] === 'moveTo')).toHaveLength(30);
+		expect(dashes.slice(1, 3)).toEqual([['moveTo', 0, 12], ['lineTo', 2, 12]]);
+		expect(dashes[dashes.length - 1]).toEqual(['stroke']);
+	});
+
+	test('fills runs of image dots, then scales text below the image', async () => {
+		const { context, calls } = recorder();
+		const target = new CanvasTarget();
+		target.setContext(context);
+		const result = await transform(`{i:${await png()}}\n|^^AB|`, { cpl: 10, target: target });
+		expect(calls).toEqual([
+			...setup,
+			['fillRect', 58, 0, 2, 1],
+			['fillRect', 59, 1, 2, 1],
+			['save'],
+			['save'],
+			['font', '=', '22px monospace'],
+			['save'], ['translate', 54, 50], ['scale', 1, 2], ['fillText', 'A', 0, 0], ['restore'],
+			['save'], ['translate', 66, 50], ['scale', 1, 2], ['fillText', 'B', 0, 0], ['restore'],
+			['restore'],
+			['restore'],
+		]);
+		expect(result.height).toBe(50);
+	});
+
+	test('draws images with the image loader', async () => {
+		const { context, calls } = recorder();
+		const target = new CanvasTarget();
+		target.setContext(context);
+		const loaded: Uint8Array[] = [];
+		target.setImageLoader(async png => (loaded.push(png), 'image'));
+		await transform(`{i:${await png()}}`, { cpl: 10, target: target });
+		expect(loaded).toHaveLength(1);
+		expect(calls).toEqual([...setup, ['drawImage', 'image', 58, 0]]);
+	});
+
+	test('requires a context', async () => {
+		await expect(transform('text', { target: new CanvasTarget() })).rejects.toThrow('Canvas context is not set');
+	});
+});
@@ -0,0 +1,418 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import { BaseTarget } from './base.ts';
+import type { Encoding, ParsedPrinter, QRCode, Barcode } from '../types.ts';
+import { generate as generateBarcode, type BarcodeSymbol } from '../barcode.ts';
+import { decodePng, monochrome, qrcodeImage, type MonochromeImage } from '../image.ts';
+import { decodeBase64 } from '@levischuck/tiny-encodings';
+
+/**
+ * Subset of CanvasRenderingContext2D that the canvas target draws with.
+ */
+export type CanvasContext = {
+	fillStyle: unknown;
+	strokeStyle: unknown;
+	lineWidth: number;
+	font: string;
+	textAlign: string;
+	textBaseline: string;
+	save(): void;
+	restore(): void;
+	translate(x: number, y: number): void;
+	scale(x: number, y: number): void;
+	fillRect(x: number, y: number, w: number, h: number): void;
+	fillText(text: string, x: number, y: number): void;
+	beginPath(): void;
+	moveTo(x: number, y: number): void;
+	lineTo(x: number, y: number): void;
+	stroke(): void;
+	drawImage(image: unknown, x: number, y: number): void;
+};
+
+// text waiting for the line height
+type CanvasText = {
+	x: number; // unit: dots
+	chars: string[];
+	widths: number[]; // unit: dots
+	scale: number;
+	height: number;
+	ul: boolean;
+	em: boolean;
+	iv: boolean;
+};
+
+/**
+ * Canvas target class for ReceiptLine commands.
+ * The receipt is drawn on the context set with `setContext()`, from the origin of the context, as the commands arrive.
+ * Text is drawn at each line feed, when the height of the line is known.
+ * The content is empty.
+ */
+export class CanvasTarget extends BaseTarget {
+	context?: CanvasContext;
+	// convert PNG to an image for drawImage(), otherwise images are drawn with fillRect()
+	imageLoader?: (png: Uint8Array) => Promise<unknown>;
+	fontFamily: string = 'monospace';
+	charWidth: number = 12;
+	spacing: boolean = false;
+	canvasWidth: number = 576;
+	canvasHeight: number = 0;
+	lineMargin: number = 0;
+	lineAlign: number = 0;
+	lineWidth: number = 48;
+	lineHeight: number = 1;
+	lineText: CanvasText[] = [];
+	textPosition: number = 0;
+	textScale: number = 1;
+	textDecoration = { ul: false, em: false, iv: false, height: 1 };
+	feedMinimum: number = 24;
+	// image conversion settings
+	gradient: boolean = true;
+	threshold: number = 128;
+
+	setContext(context: CanvasContext): void {
+		this.context = context;
+	}
+
+	setImageLoader(imageLoader: (png: Uint8Array) => Promise<unknown>): void {
+		this.imageLoader = imageLoader;
+	}
+
+	setFontFamily(fontFamily: string): void {
+		this.fontFamily = fontFamily;
+	}
+
+	setGradient(gradient: boolean): void {
+		this.gradient = gradient;
+	}
+
+	setThreshold(threshold: number): void {
+		this.threshold = threshold;
+	}
+
+	// start printing:
+	override async open(printer: ParsedPrinter): Promise<string> {
+		await super.open(printer);
+		if (!this.context) {
+			throw new Error('Canvas context is not set');
+		}
+		this.charWidth = printer.charWidth;
+		this.spacing = printer.spacing;
+		this.canvasWidth = this.cpl * printer.charWidth;
+		this.canvasHeight = 0;
+		this.lineMargin = 0;
+		this.lineAlign = 0;
+		this.lineWidth = this.cpl;
+		this.lineHeight = 1;
+		this.lineText = [];
+		this.textPosition = 0;
+		await this.normal();
+		this.feedMinimum = this.charWidth * (this.spacing ? 2.5 : 2);
+		const ctx = this.context;
+		ctx.fillStyle = '#000';
+		ctx.strokeStyle = '#000';
+		ctx.lineWidth = 2;
+		ctx.textAlign = 'center';
+		ctx.textBaseline = 'bottom';
+		return '';
+	}
+
+	// finish printing:
+	override async close(): Promise<string> {
+		return '';
+	}
+
+	// context of the print job:
+	protected get ctx(): CanvasContext {
+		return this.context!;
+	}
+
+	// horizontal position of aligned content:
+	protected x(width: number): number {
+		return Math.floor(this.lineMargin * this.charWidth + (this.lineWidth * this.charWidth - width) * this.lineAlign / 2);
+	}
+
+	// vertical line positions (unit: dots)
+	protected lines(widths: number[], offset: number = 0): number[] {
+		let p = this.lineMargin + offset;
+		return [p, ...widths.map(w => p += w + 1)].map(p => p * this.charWidth + this.charWidth / 2);
+	}
+
+	// stroke line segments:
+	protected segments(segments: number[][]): void {
+		const ctx = this.ctx;
+		ctx.beginPath();
+		for (const [x1 = 0, y1 = 0, x2 = 0, y2 = 0] of segments) {
+			ctx.moveTo(x1, y1);
+			ctx.lineTo(x2, y2);
+		}
+		ctx.stroke();
+	}
+
+	// fill dots of monochrome image:
+	protected dots(img: MonochromeImage, x: number, y: number, cell: number): void {
+		const stride = img.width + 7 >> 3;
+		for (let j = 0; j < img.height; j++) {
+			// fill runs of dots in the row
+			for (let i = 0; i < img.width;) {
+				const dot = (k: number): number => (img.data[j * stride + (k >> 3)] ?? 0) & 0x80 >> (k & 7);
+				if (!dot(i)) {
+					i++;
+					continue;
+				}
+				const start = i;
+				while (i < img.width && dot(i)) {
+					i++;
+				}
+				this.ctx.fillRect(x + start * cell, y + j * cell, (i - start) * cell, cell);
+			}
+		}
+	}
+
+	// set print area:
+	override async area(left: number, width: number, right: number): Promise<string> {
+		this.lineMargin = left;
+		this.lineWidth = width;
+		return '';
+	}
+
+	// set line alignment:
+	override async align(align: number): Promise<string> {
+		this.lineAlign = align;
+		return '';
+	}
+
+	// set absolute print position:
+	override async absolute(position: number): Promise<string> {
+		this.textPosition = position;
+		return '';
+	}
+
+	// set relative print position:
+	override async relative(position: number): Promise<string> {
+		this.textPosition += position;
+		return '';
+	}
+
+	// print horizontal rule:
+	override async hr(width: number): Promise<string> {
+		const x = this.lineMargin * this.charWidth, y = this.canvasHeight + this.charWidth;
+		this.segments([[x, y, x + width * this.charWidth, y]]);
+		return '';
+	}
+
+	// print vertical rules:
+	override async vr(widths: number[], height: number): Promise<string> {
+		const y = this.canvasHeight;
+		this.segments(this.lines(widths).map(x => [x, y, x, y + this.charWidth * 2 * height]));
+		return '';
+	}
+
+	// start rules:
+	override async vrstart(widths: number[]): Promise<string> {
+		const x = this.lines(widths);
+		const y = this.canvasHeight + this.charWidth;
+		this.segments([[Math.min(...x) - 1, y, Math.max(...x) + 1, y], ...x.map(p => [p, y, p, y + this.charWidth])]);
+		return '';
+	}
+
+	// stop rules:
+	override async vrstop(widths: number[]): Promise<string> {
+		const x = this.lines(widths);
+		const y = this.canvasHeight + this.charWidth;
+		this.segments([...x.map(p => [p, y - this.charWidth, p, y]), [Math.min(...x) - 1, y, Math.max(...x) + 1, y]]);
+		return '';
+	}
+
+	// print vertical and horizontal rules:
+	override async vrhr(widths1: number[], widths2: number[], dl: number, dr: number): Promise<string> {
+		const x1 = this.lines(widths1, Math.max(-dl, 0));
+		const x2 = this.lines(widths2, Math.max(dl, 0));
+		const y = this.canvasHeight + this.charWidth;
+		this.segments([
+			...x1.map(p => [p, y - this.charWidth, p, y]),
+			[Math.min(...x1, ...x2) - 1, y, Math.max(...x1, ...x2) + 1, y],
+			...x2.map(p => [p, y, p, y + this.charWidth])
+		]);
+		return '';
+	}
+
+	// set line spacing and feed new line:
+	override async vrlf(vr: boolean): Promise<string> {
+		this.feedMinimum = this.charWidth * (!vr && this.spacing ? 2.5 : 2);
+		return await this.lf();
+	}
+
+	// cut paper:
+	override async cut(): Promise<string> {
+		// dashed line
+		const y = this.canvasHeight + this.charWidth;
+		const dashes: number[][] = [];
+		for (let x = 0; x < this.canvasWidth; x += 4) {
+			dashes.push([x, y, x + 2, y]);
+		}
+		this.segments(dashes);
+		return await this.lf();
+	}
+
+	// underline text:
+	override async ul(): Promise<string> {
+		this.textDecoration.ul = true;
+		return '';
+	}
+
+	// emphasize text:
+	override async em(): Promise<string> {
+		this.textDecoration.em = true;
+		return '';
+	}
+
+	// invert text:
+	override async iv(): Promise<string> {
+		this.textDecoration.iv = true;
+		return '';
+	}
+
+	// scale up text:
+	override async wh(wh: number): Promise<string> {
+		const w = wh < 3 ? (wh & 1) + 1 : wh - 1;
+		const h = wh < 3 ? (wh >> 1 & 1) + 1 : wh - 1;
+		this.textScale = w;
+		this.textDecoration.height = h;
+		this.lineHeight = Math.max(this.lineHeight, h);
+		return '';
+	}
+
+	// cancel text decoration:
+	override async normal(): Promise<string> {
+		this.textScale = 1;
+		this.textDecoration = { ul: false, em: false, iv: false, height: 1 };
+		return '';
+	}
+
+	// print text:
+	override async text(text: string, encoding: Encoding): Promise<string> {
+		const chars = this.arrayFrom(text, encoding);
+		const widths = chars.map(c => this.measureText(c, encoding) * this.textScale * this.charWidth);
+		this.lineText.push({ x: (this.lineMargin + this.textPosition) * this.charWidth, chars: chars, widths: widths, scale: this.textScale, ...this.textDecoration });
+		this.textPosition += this.measureText(text, encoding) * this.textScale;
+		return '';
+	}
+
+	// draw characters at the centers of their cells:
+	protected fillChars(t: CanvasText, y: number): void {
+		const ctx = this.ctx;
+		const th = t.height * this.charWidth * 2;
+		ctx.save();
+		ctx.font = `${t.em ? 'bold ' : ''}${this.charWidth * 2 - 2}px ${this.fontFamily}`;
+		let x = t.x;
+		t.chars.forEach((c, i) => {
+			const w = t.widths[i] ?? 0;
+			if (c !== ' ') {
+				ctx.save();
+				ctx.translate(x + w / 2, y + th);
+				ctx.scale(t.scale, t.height);
+				ctx.fillText(c, 0, 0);
+				ctx.restore();
+			}
+			x += w;
+		});
+		ctx.restore();
+	}
+
+	// feed new line:
+	override async lf(): Promise<string> {
+		const ctx = this.ctx;
+		const h = this.lineHeight * this.charWidth * 2;
+		for (const t of this.lineText) {
+			// align text to the bottom of the line
+			const th = t.height * this.charWidth * 2;
+			const y = this.canvasHeight + h - th;
+			const w = t.widths.reduce((a, w) => a + w, 0);
+			ctx.save();
+			if (t.iv) {
+				ctx.fillRect(t.x, y, w, th);
+				ctx.fillStyle = '#fff';
+			}
+			this.fillChars(t, y);
+			if (t.ul) {
+				ctx.fillRect(t.x, y + th - 2, w, 2);
+			}
+			ctx.restore();
+		}
+		this.canvasHeight += Math.max(h, this.feedMinimum);
+		this.lineHeight = 1;
+		this.lineText = [];
+		this.textPosition = 0;
+		return '';
+	}
+
+	// insert commands:
+	override async command(command: string): Promise<string> {
+		return '';
+	}
+
+	// print image:
+	override async image(image: string): Promise<string> {
+		const png = decodeBase64(image);
+		const img = await decodePng(png);
+		const x = this.x(img.width);
+		const y = this.canvasHeight;
+		if (this.imageLoader) {
+			this.ctx.drawImage(await this.imageLoader(png), x, y);
+		}
+		else {
+			this.dots(monochrome(img, this.gradient, this.threshold), x, y, 1);
+		}
+		this.canvasHeight += img.height;
+		return '';
+	}
+
+	// print QR Code:
+	override async qrcode(symbol: QRCode, encoding: Encoding): Promise<string> {
+		if (symbol.data.length === 0) {
+			return '';
+		}
+		// one dot per module
+		const img = await qrcodeImage({ ...symbol, cell: 1 });
+		const c = symbol.cell;
+		this.dots(img, this.x(img.width * c), this.canvasHeight, c);
+		this.canvasHeight += img.height * c;
+		return '';
+	}
+
+	// print barcode:
+	override async barcode(symbol: Barcode, encoding: Encoding): Promise<string> {
+		const bar = generateBarcode(symbol as BarcodeSymbol);
+		const h = bar.height;
+		if (h === undefined || bar.length === undefined || !bar.widths) {
+			return '';
+		}
+		const x = this.x(bar.length);
+		const y = this.canvasHeight;
+		// odd elements are bars
+		bar.widths.reduce((p, w, i) => {
+			if (i % 2 === 1) {
+				this.ctx.fillRect(x + p, y, w, h);
+			}
+			return p + w;
+		}, 0);
+		// draw human readable interpretation
+		if (bar.hri && bar.text) {
+			const chars = this.arrayFrom(bar.text, encoding);
+			const m = x + Math.floor((bar.length - chars.length * this.charWidth) / 2);
+			this.fillChars({ x: m, chars: chars, widths: chars.map(() => this.charWidth), scale: 1, height: 1, ul: false, em: false, iv: false }, y + h + 2);
+		}
+		this.canvasHeight += h + (bar.hri ? this.charWidth * 2 + 2 : 0);
+		return '';
+	}
+
+	override calculatedWidth(): number {
+		return this.canvasWidth;
+	}
+
+	override calculatedHeight(): number {
+		return this.canvasHeight;
+	}
+}
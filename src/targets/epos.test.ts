@@ -0,0 +1,24 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import { describe, expect, test } from 'bun:test';
+import { transform } from '../index.ts';
+
+describe('EposTarget', () => {
+	test('writes ePOS-Print XML', async () => {
+		const doc = '{w:4,*;b:line}\n|"A"|^^B^^|\n{w:auto;b:space}\n_x_ `y` ^^^z\n{c:123;o:code128,2,40,hri}\n{x:\\x1bp\\x00}\n---\n=';
+		const result = await transform(doc, { cpl: 16, target: 'epos' });
+		expect(result.content).toBe(
+			'<?xml version="1.0" encoding="utf-8"?>\n' +
+			'<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/"><s:Body><epos-print xmlns="http://www.epson-pos.com/schemas/2011/03/epos-print"><text lang="en" smooth="true" linespc="24"/><text reverse="false" ul="false" em="false" width="1" height="1"/><text align="left"/><hline x1="6" x2="186" style="thin"/><vline-begin x="6" style="thin"/><vline-begin x="66" style="thin"/><vline-begin x="186" style="thin"/><text linespc="24"/><feed/>' +
+			'<text reverse="false" ul="false" em="false" width="1" height="1"/><text align="left"/><text reverse="false" ul="false" em="false" width="1" height="1"/><text x="0"/><text x="12"/><text x="30"/><text reverse="false" ul="false" em="false" width="1" height="1"/><text em="true"/><text>A</text><text x="72"/><text x="120"/><text reverse="false" ul="false" em="false" width="1" height="1"/><text width="1" height="2"/><text>B</text><feed/>' +
+			'<text reverse="false" ul="false" em="false" width="1" height="1"/><text align="left"/><vline-end x="6"/><vline-end x="66"/><vline-end x="186"/><hline x1="6" x2="186" style="thin"/><text linespc="24"/><feed/>' +
+			'<text reverse="false" ul="false" em="false" width="1" height="1"/><text align="left"/><text x="0"/><text x="60"/><text reverse="false" ul="false" em="false" width="1" height="1"/><text ul="true"/><text>x</text><text reverse="false" ul="false" em="false" width="1" height="1"/><text> </text><text reverse="false" ul="false" em="false" width="1" height="1"/><text reverse="true"/><text>y</text><text reverse="false" ul="false" em="false" width="1" height="1"/><text> </text><text reverse="false" ul="false" em="false" width="1" height="1"/><text width="2" height="2"/><text>z</text><feed/>' +
+			'<text reverse="false" ul="false" em="false" width="1" height="1"/><text align="center"/><barcode type="code128" hri="below" font="font_a" width="2" height="40">{B123</barcode><text reverse="false" ul="false" em="false" width="1" height="1"/><text align="center"/><command>1b7000</command><text reverse="false" ul="false" em="false" width="1" height="1"/><text align="left"/><hline x1="0" x2="192" style="thin"/><feed/>' +
+			'<cut type="feed"/></epos-print></s:Body></s:Envelope>\n'
+		);
+		expect(result.width).toBe(192);
+		expect(result.height).toBe(232);
+	});
+});
@@ -0,0 +1,282 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import { BaseTarget } from './base.ts';
+import type { Encoding, ParsedPrinter, QRCode, Barcode } from '../types.ts';
+import { generate as generateBarcode, type BarcodeSymbol } from '../barcode.ts';
+import { decodePng, monochrome } from '../image.ts';
+import { decodeBase64, encodeBase64 } from '@levischuck/tiny-encodings';
+
+// escape XML special characters
+const escape = (text: string): string => text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' }[c] ?? c));
+
+/**
+ * Epson ePOS-Print XML target class for ReceiptLine commands.
+ * The content is a SOAP request to POST to the ePOS-Print service of the printer
+ * (http://<printer>/cgi-bin/epos/service.cgi?devid=local_printer&timeout=10000).
+ */
+export class EposTarget extends BaseTarget {
+	charWidth: number = 12;
+	margin: number = 0;
+	spacing: boolean = false;
+	eposContent: string = '';
+	eposHeight: number = 0;
+	lineMargin: number = 0;
+	lineHeight: number = 1;
+	textPosition: number = 0;
+	textScale: number = 1;
+	feedMinimum: number = 24;
+	// image conversion settings
+	gradient: boolean = true;
+	threshold: number = 128;
+
+	setGradient(gradient: boolean): void {
+		this.gradient = gradient;
+	}
+
+	setThreshold(threshold: number): void {
+		this.threshold = threshold;
+	}
+
+	// start printing: <text lang smooth linespc/>
+	override async open(printer: ParsedPrinter): Promise<string> {
+		await super.open(printer);
+		this.charWidth = printer.charWidth;
+		this.margin = printer.margin;
+		this.spacing = printer.spacing;
+		this.eposHeight = 0;
+		this.lineMargin = 0;
+		this.lineHeight = 1;
+		this.textPosition = 0;
+		this.textScale = 1;
+		this.feedMinimum = this.charWidth * (this.spacing ? 2.5 : 2);
+		this.eposContent = `<text lang="${lang[printer.encoding] ?? 'en'}" smooth="true" linespc="${this.feedMinimum}"/>`;
+		return '';
+	}
+
+	// finish printing:
+	override async close(): Promise<string> {
+		return '<?xml version="1.0" encoding="utf-8"?>\n' +
+			'<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/"><s:Body>' +
+			`<epos-print xmlns="http://www.epson-pos.com/schemas/2011/03/epos-print">${this.eposContent}</epos-print>` +
+			'</s:Body></s:Envelope>\n';
+	}
+
+	// set print area:
+	override async area(left: number, width: number, right: number): Promise<string> {
+		this.lineMargin = this.margin + left;
+		return '';
+	}
+
+	// set line alignment: <text align/>
+	override async align(align: number): Promise<string> {
+		this.eposContent += `<text align="${['left', 'center', 'right'][align] ?? 'left'}"/>`;
+		return '';
+	}
+
+	// set absolute print position: <text x/>
+	override async absolute(position: number): Promise<string> {
+		this.textPosition = position;
+		this.eposContent += `<text x="${this.x(position)}"/>`;
+		return '';
+	}
+
+	// set relative print position: <text x/>
+	override async relative(position: number): Promise<string> {
+		this.textPosition += position;
+		this.eposContent += `<text x="${this.x(this.textPosition)}"/>`;
+		return '';
+	}
+
+	// convert print position to dots:
+	protected x(position: number): number {
+		return Math.round((this.lineMargin + position) * this.charWidth);
+	}
+
+	// vertical line positions (unit: dots)
+	protected lines(widths: number[], offset: number = 0): number[] {
+		let p = offset;
+		return [p, ...widths.map(w => p += w + 1)].map(p => this.x(p) + this.charWidth / 2);
+	}
+
+	// print horizontal rule: <hline/>
+	override async hr(width: number): Promise<string> {
+		this.eposContent += `<hline x1="${this.x(0)}" x2="${this.x(width)}" style="thin"/>`;
+		return '';
+	}
+
+	// print vertical rules:
+	override async vr(widths: number[], height: number): Promise<string> {
+		// vertical lines continue from <vline-begin/> to <vline-end/>
+		return '';
+	}
+
+	// start rules: <hline/> <vline-begin/>
+	override async vrstart(widths: number[]): Promise<string> {
+		const x = this.lines(widths);
+		this.eposContent += `<hline x1="${x[0]}" x2="${x[x.length - 1]}" style="thin"/>` +
+			x.map(p => `<vline-begin x="${p}" style="thin"/>`).join('');
+		return '';
+	}
+
+	// stop rules: <vline-end/> <hline/>
+	override async vrstop(widths: number[]): Promise<string> {
+		const x = this.lines(widths);
+		this.eposContent += x.map(p => `<vline-end x="${p}"/>`).join('') +
+			`<hline x1="${x[0]}" x2="${x[x.length - 1]}" style="thin"/>`;
+		return '';
+	}
+
+	// print vertical and horizontal rules: <vline-end/> <hline/> <vline-begin/>
+	override async vrhr(widths1: number[], widths2: number[], dl: number, dr: number): Promise<string> {
+		const x1 = this.lines(widths1, Math.max(-dl, 0));
+		const x2 = this.lines(widths2, Math.max(dl, 0));
+		this.eposContent += x1.map(p => `<vline-end x="${p}"/>`).join('') +
+			`<hline x1="${Math.min(x1[0] ?? 0, x2[0] ?? 0)}" x2="${Math.max(x1[x1.length - 1] ?? 0, x2[x2.length - 1] ?? 0)}" style="thin"/>` +
+			x2.map(p => `<vline-begin x="${p}" style="thin"/>`).join('');
+		return '';
+	}
+
+	// set line spacing and feed new line: <text linespc/>
+	override async vrlf(vr: boolean): Promise<string> {
+		this.feedMinimum = this.charWidth * (!vr && this.spacing ? 2.5 : 2);
+		this.eposContent += `<text linespc="${this.feedMinimum}"/>`;
+		return await this.lf();
+	}
+
+	// cut paper: <cut/>
+	override async cut(): Promise<string> {
+		this.eposContent += '<cut type="feed"/>';
+		return '';
+	}
+
+	// underline text: <text ul/>
+	override async ul(): Promise<string> {
+		this.eposContent += '<text ul="true"/>';
+		return '';
+	}
+
+	// emphasize text: <text em/>
+	override async em(): Promise<string> {
+		this.eposContent += '<text em="true"/>';
+		return '';
+	}
+
+	// invert text: <text reverse/>
+	override async iv(): Promise<string> {
+		this.eposContent += '<text reverse="true"/>';
+		return '';
+	}
+
+	// scale up text: <text width height/>
+	override async wh(wh: number): Promise<string> {
+		const w = wh < 3 ? (wh & 1) + 1 : wh - 1;
+		const h = wh < 3 ? (wh >> 1 & 1) + 1 : wh - 1;
+		this.eposContent += `<text width="${w}" height="${h}"/>`;
+		this.lineHeight = Math.max(this.lineHeight, h);
+		this.textScale = w;
+		return '';
+	}
+
+	// cancel text decoration: <text reverse ul em width height/>
+	override async normal(): Promise<string> {
+		this.eposContent += '<text reverse="false" ul="false" em="false" width="1" height="1"/>';
+		this.textScale = 1;
+		return '';
+	}
+
+	// print text: <text>
+	override async text(text: string, encoding: Encoding): Promise<string> {
+		this.eposContent += `<text>${escape(text)}</text>`;
+		this.textPosition += this.measureText(text, encoding) * this.textScale;
+		return '';
+	}
+
+	// feed new line: <feed/>
+	override async lf(): Promise<string> {
+		this.eposContent += '<feed/>';
+		this.eposHeight += Math.max(this.lineHeight * this.charWidth * 2, this.feedMinimum);
+		this.lineHeight = 1;
+		this.textPosition = 0;
+		return '';
+	}
+
+	// insert commands: <command>
+	override async command(command: string): Promise<string> {
+		const hex = Array.from(command, c => (c.charCodeAt(0) & 255).toString(16).padStart(2, '0')).join('');
+		this.eposContent += `<command>${hex}</command>`;
+		return '';
+	}
+
+	// print image: <image>
+	override async image(image: string): Promise<string> {
+		const img = monochrome(await decodePng(decodeBase64(image)), this.gradient, this.threshold);
+		this.eposContent += `<image width="${img.width}" height="${img.height}" color="color_1" mode="mono">${encodeBase64(img.data)}</image>`;
+		this.eposHeight += img.height;
+		return '';
+	}
+
+	// print QR Code: <symbol>
+	override async qrcode(symbol: QRCode, encoding: Encoding): Promise<string> {
+		if (symbol.data.length === 0) {
+			return '';
+		}
+		this.eposContent += `<symbol type="qrcode_model_2" level="level_${symbol.level}" width="${symbol.cell}" height="0" size="0">${escape(symbol.data)}</symbol>`;
+		// estimated size for version 2
+		this.eposHeight += symbol.cell * 25;
+		return '';
+	}
+
+	// print barcode: <barcode>
+	override async barcode(symbol: Barcode, encoding: Encoding): Promise<string> {
+		// skip data that the symbology cannot represent
+		const bar = generateBarcode(symbol as BarcodeSymbol);
+		if (!bar.widths) {
+			return '';
+		}
+		let d = symbol.data;
+		const short = /upc|[ej]an/.test(symbol.type) && d.length < 9;
+		switch (symbol.type) {
+			case 'upc':
+				d = d.slice(0, short ? 7 : 11);
+				break;
+			case 'ean':
+			case 'jan':
+				d = d.slice(0, short ? 7 : 12);
+				break;
+			case 'code39':
+				d = d.replace(/^\*?([^*]+)\*?$/, '$1');
+				break;
+			case 'code128':
+				// code set A for control codes without lowercase letters, otherwise code set B
+				d = /[\x00-\x1f]/.test(d) && /^[\x00-\x5f]+$/.test(d) ? '{A' + d : '{B' + d.replace(/[\x00-\x1f]/g, '').replace(/{/g, '{{');
+				break;
+			default:
+				break;
+		}
+		const type = short ? (symbol.type === 'upc' ? 'upc_e' : symbol.type + '8') : bartype[symbol.type];
+		const data = d.replace(/[\x00-\x1f\\]/g, c => '\\x' + c.charCodeAt(0).toString(16).padStart(2, '0'));
+		this.eposContent += `<barcode type="${type}" hri="${symbol.hri ? 'below' : 'none'}" font="font_a" width="${symbol.width}" height="${symbol.height}">${escape(data)}</barcode>`;
+		this.eposHeight += symbol.height + (symbol.hri ? this.charWidth * 2 : 0);
+		return '';
+	}
+
+	override calculatedWidth(): number {
+		return this.cpl * this.charWidth;
+	}
+
+	override calculatedHeight(): number {
+		return this.eposHeight;
+	}
+}
+
+// text languages of code pages
+const lang: Partial<Record<Encoding, string>> = {
+	cp932: 'ja', shiftjis: 'ja', cp936: 'zh-cn', gb18030: 'zh-cn', cp949: 'ko', ksc5601: 'ko', cp950: 'zh-tw', big5: 'zh-tw', tis620: 'th'
+};
+
+// barcode types
+const bartype: Record<Barcode['type'], string> = {
+	upc: 'upc_a', ean: 'ean13', jan: 'jan13', code39: 'code39', itf: 'itf', codabar: 'codabar', nw7: 'codabar', code93: 'code93', code128: 'code128'
+};
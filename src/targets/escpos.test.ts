@@ -0,0 +1,23 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import { describe, expect, test } from 'bun:test';
+import { transform } from '../index.ts';
+
+describe('EscPosTarget', () => {
+	test('prints text, rules, and barcodes with ESC/POS commands', async () => {
+		const doc = '{w:4,*;b:line}\n|"A"|^^B^^|\n{w:auto;b:space}\n_x_ `y` ^^^z\n{c:123;o:code128,2,40,hri}\n{x:\\x1bp\\x00}\n---\n=';
+		const result = await transform(doc, { cpl: 16, target: 'escpos' });
+		expect(result.content).toBe(
+			'\x1b@\x1da\x00\x1bM0\x1c(A\x02\x000\x00\x1b \x00\x1cS\x00\x00\x1b3\x00\x1c.\x1bt\x00\x1b-\x00\x1c-\x00\x1bE\x00\x1dB\x00\x1d!\x00\x1dL\x00\x00\x1dW\xc0\x00\x1ba\x00\x1c.\x1bt\x01\x9c\x95\x95\x95\x95\x91\x95\x95\x95\x95\x95\x95\x95\x95\x95\x9d\x1b3\x00\n' +
+			'\x1b-\x00\x1c-\x00\x1bE\x00\x1dB\x00\x1d!\x00\x1dL\x00\x00\x1dW\xc0\x00\x1ba\x00\x1b-\x00\x1c-\x00\x1bE\x00\x1dB\x00\x1d!\x00\x1b$\x00\x00\x1d!\x01\x1c.\x1bt\x01\x96    \x96         \x96\x1b$\x0c\x00\x1b\\\x12\x00\x1b-\x00\x1c-\x00\x1bE\x00\x1dB\x00\x1d!\x00\x1bE\x01\x1c.\x1bt\x00A\x1b$H\x00\x1b\\0\x00\x1b-\x00\x1c-\x00\x1bE\x00\x1dB\x00\x1d!\x00\x1d!\x01B\n' +
+			'\x1b-\x00\x1c-\x00\x1bE\x00\x1dB\x00\x1d!\x00\x1dL\x00\x00\x1dW\xc0\x00\x1ba\x00\x1c.\x1bt\x01\x9e\x95\x95\x95\x95\x90\x95\x95\x95\x95\x95\x95\x95\x95\x95\x9f\x1b3\x00\n' +
+			'\x1b-\x00\x1c-\x00\x1bE\x00\x1dB\x00\x1d!\x00\x1dL\x00\x00\x1dW\xc0\x00\x1ba\x00\x1b$\x00\x00\x1b\\<\x00\x1b-\x00\x1c-\x00\x1bE\x00\x1dB\x00\x1d!\x00\x1b-\x02\x1c-\x02\x1c.\x1bt\x00x\x1b-\x00\x1c-\x00\x1bE\x00\x1dB\x00\x1d!\x00 \x1b-\x00\x1c-\x00\x1bE\x00\x1dB\x00\x1d!\x00\x1dB\x01y\x1b-\x00\x1c-\x00\x1bE\x00\x1dB\x00\x1d!\x00 \x1b-\x00\x1c-\x00\x1bE\x00\x1dB\x00\x1d!\x00\x1d!\x11z\n' +
+			'\x1b-\x00\x1c-\x00\x1bE\x00\x1dB\x00\x1d!\x00\x1dL\x00\x00\x1dW\xc0\x00\x1ba\x01\x1dw\x02\x1dh(\x1dH\x02\x1dkI\x05{B123\x1b-\x00\x1c-\x00\x1bE\x00\x1dB\x00\x1d!\x00\x1dL\x00\x00\x1dW\xc0\x00\x1ba\x01\x1bp\x00\x1b-\x00\x1c-\x00\x1bE\x00\x1dB\x00\x1d!\x00\x1dL\x00\x00\x1dW\xc0\x00\x1ba\x00\x1c.\x1bt\x01\x95\x95\x95\x95\x95\x95\x95\x95\x95\x95\x95\x95\x95\x95\x95\x95\n' +
+			'\x1dVB\x00'
+		);
+		expect(result.width).toBe(192);
+		expect(result.height).toBe(232);
+	});
+});
@@ -0,0 +1,339 @@
+/*
+Copyright 2019 Open Foodservice System Consortium
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+	http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { BaseTarget } from './base.ts';
+import type { Encoding, ParsedPrinter, QRCode, Barcode } from '../types.ts';
+import { generate as generateBarcode, type BarcodeSymbol } from '../barcode.ts';
+import { encode, segment, type Fallback } from '../encoding.ts';
+import { decodePng, monochrome, qrcodeImage } from '../image.ts';
+import { hrRule, vrRule, vrstartRule, vrstopRule, vrhrRule } from './rules.ts';
+import { decodeBase64 } from '@levischuck/tiny-encodings';
+
+// convert byte values to a command string (one character per byte)
+const $ = (...bytes: number[]): string => String.fromCharCode(...bytes.map(b => b & 255));
+
+// convert byte array to a command string
+const bytes = (data: Uint8Array): string => {
+	let r = '';
+	for (let i = 0; i < data.length; i += 4096) {
+		r += String.fromCharCode(...data.subarray(i, i + 4096));
+	}
+	return r;
+};
+
+/**
+ * ESC/POS target class for ReceiptLine commands.
+ * Each character of the output is one byte to send to the printer.
+ */
+export class EscPosTarget extends BaseTarget {
+	charWidth: number = 12;
+	margin: number = 0;
+	spacing: boolean = false;
+	// image conversion settings
+	gradient: boolean = true;
+	threshold: number = 128;
+	// replacement of characters that the code page cannot represent
+	fallback: Fallback = '?';
+	// selected code page (undefined after rules, which select code page 1)
+	page: Encoding | undefined = 'cp437';
+	// maximum image band height (unit: dots)
+	split: number = 512;
+	// fed paper (unit: dots)
+	escposHeight: number = 0;
+	// height of the current line (unit: characters) and minimum line feed (unit: dots)
+	lineHeight: number = 1;
+	feedMinimum: number = 24;
+
+	setFallback(fallback: Fallback): void {
+		this.fallback = fallback;
+	}
+
+	setGradient(gradient: boolean): void {
+		this.gradient = gradient;
+	}
+
+	setThreshold(threshold: number): void {
+		this.threshold = threshold;
+	}
+
+	// start printing: ESC @ GS a n ESC M n FS ( A pL pH fn m ESC SP n FS S n1 n2 (ESC 2) (ESC 3 n) FS . ESC t n
+	override async open(printer: ParsedPrinter): Promise<string> {
+		await super.open(printer);
+		this.charWidth = printer.charWidth;
+		this.margin = printer.margin;
+		this.spacing = printer.spacing;
+		this.escposHeight = 0;
+		this.lineHeight = 1;
+		this.feedMinimum = this.charWidth * (this.spacing ? 2.5 : 2);
+		return '\x1b@\x1da\x00\x1bM0\x1c(A' + $(2, 0, 48, 0) + '\x1b \x00\x1cS\x00\x00' + (this.spacing ? '\x1b2' : '\x1b3\x00') + this.codepage(printer.encoding);
+	}
+
+	// select character code table: FS . ESC t n (FS & (FS C n))
+	protected codepage(encoding: Encoding): string {
+		// multilingual text starts with code page 437
+		this.page = encoding === 'multilingual' ? 'cp437' : encoding;
+		const table: Partial<Record<Encoding, number>> = {
+			cp437: 0, cp932: 1, shiftjis: 1, cp860: 3, cp863: 4, cp865: 5, cp1252: 16, cp866: 17, cp852: 18, cp858: 19, tis620: 21
+		};
+		// double byte code pages use Kanji mode
+		const kanji: Partial<Record<Encoding, string>> = {
+			cp932: '\x1c&\x1cC\x01', shiftjis: '\x1c&\x1cC\x01', cp936: '\x1c&', gb18030: '\x1c&', cp949: '\x1c&', ksc5601: '\x1c&', cp950: '\x1c&', big5: '\x1c&'
+		};
+		return '\x1c.\x1bt' + $(table[encoding] ?? 0) + (kanji[encoding] ?? '');
+	}
+
+	// finish printing:
+	override async close(): Promise<string> {
+		return '';
+	}
+
+	// set print area: GS L nL nH GS W nL nH
+	override async area(left: number, width: number, right: number): Promise<string> {
+		const m = (this.margin + left) * this.charWidth;
+		const w = width * this.charWidth;
+		return '\x1dL' + $(m, m >> 8) + '\x1dW' + $(w, w >> 8);
+	}
+
+	// set line alignment: ESC a n
+	override async align(align: number): Promise<string> {
+		return '\x1ba' + $(align);
+	}
+
+	// set absolute print position: ESC $ nL nH
+	override async absolute(position: number): Promise<string> {
+		const p = Math.round(position * this.charWidth);
+		return '\x1b$' + $(p, p >> 8);
+	}
+
+	// set relative print position: ESC \ nL nH
+	override async relative(position: number): Promise<string> {
+		const p = Math.round(position * this.charWidth);
+		return '\x1b\\' + $(p, p >> 8);
+	}
+
+	// print horizontal rule: FS . ESC t n ...
+	override async hr(width: number): Promise<string> {
+		return this.rulepage() + this.rule(hrRule(width));
+	}
+
+	// print vertical rules: GS ! n FS . ESC t n ...
+	override async vr(widths: number[], height: number): Promise<string> {
+		this.lineHeight = Math.max(this.lineHeight, height);
+		return '\x1d!' + $(height - 1) + this.rulepage() + this.rule(vrRule(widths));
+	}
+
+	// start rules: FS . ESC t n ...
+	override async vrstart(widths: number[]): Promise<string> {
+		return this.rulepage() + this.rule(vrstartRule(widths));
+	}
+
+	// stop rules: FS . ESC t n ...
+	override async vrstop(widths: number[]): Promise<string> {
+		return this.rulepage() + this.rule(vrstopRule(widths));
+	}
+
+	// print vertical and horizontal rules: FS . ESC t n ...
+	override async vrhr(widths1: number[], widths2: number[], dl: number, dr: number): Promise<string> {
+		return this.rulepage() + this.rule(vrhrRule(widths1, widths2, dl, dr));
+	}
+
+	// select code page 1 of box drawing characters: FS . ESC t n
+	protected rulepage(): string {
+		// FS . also cancels Kanji mode, so the code page of text is selected again before the next text
+		this.page = undefined;
+		return '\x1c.\x1bt\x01';
+	}
+
+	// convert box drawing characters to code page 1:
+	protected rule(rule: string): string {
+		return rule.replace(/[^ ]/g, c => ruleChars[c] ?? ' ');
+	}
+
+	// set line spacing and feed new line: (ESC 2) (ESC 3 n)
+	override async vrlf(vr: boolean): Promise<string> {
+		this.feedMinimum = this.charWidth * (!vr && this.spacing ? 2.5 : 2);
+		return (!vr && this.spacing ? '\x1b2' : '\x1b3\x00') + await this.lf();
+	}
+
+	// cut paper: GS V m n
+	override async cut(): Promise<string> {
+		return '\x1dVB\x00';
+	}
+
+	// underline text: ESC - n FS - n
+	override async ul(): Promise<string> {
+		return '\x1b-\x02\x1c-\x02';
+	}
+
+	// emphasize text: ESC E n
+	override async em(): Promise<string> {
+		return '\x1bE\x01';
+	}
+
+	// invert text: GS B n
+	override async iv(): Promise<string> {
+		return '\x1dB\x01';
+	}
+
+	// scale up text: GS ! n
+	override async wh(wh: number): Promise<string> {
+		this.lineHeight = Math.max(this.lineHeight, wh < 3 ? (wh >> 1 & 1) + 1 : wh - 1);
+		return '\x1d!' + (wh < 3 ? $((wh & 1) << 4 | wh >> 1 & 1) : $(wh - 2 << 4 | wh - 2));
+	}
+
+	// cancel text decoration: ESC - n FS - n ESC E n GS B n GS ! n
+	override async normal(): Promise<string> {
+		return '\x1b-\x00\x1c-\x00\x1bE\x00\x1dB\x00\x1d!\x00';
+	}
+
+	// print text:
+	override async text(text: string, encoding: Encoding): Promise<string> {
+		return this.encode(text, encoding);
+	}
+
+	// convert text to printer characters:
+	protected encode(text: string, encoding: Encoding): string {
+		if (encoding !== 'multilingual') {
+			// select the code page again after rules
+			return (this.page !== encoding ? this.codepage(encoding) : '') + encode(text, encoding, this.fallback);
+		}
+		// switch code pages within the text
+		return segment(text, undefined, this.page)
+			.map(s => (s.encoding !== this.page ? this.codepage(s.encoding) : '') + encode(s.text, s.encoding, this.fallback))
+			.join('');
+	}
+
+	// feed new line: LF
+	override async lf(): Promise<string> {
+		this.escposHeight += Math.max(this.lineHeight * this.charWidth * 2, this.feedMinimum);
+		this.lineHeight = 1;
+		return '\n';
+	}
+
+	// insert commands:
+	override async command(command: string): Promise<string> {
+		return command;
+	}
+
+	// print image: GS 8 L p1 p2 p3 p4 m fn a bx by c xL xH yL yH d1 ... dk GS ( L pL pH m fn
+	override async image(image: string): Promise<string> {
+		const img = monochrome(await decodePng(decodeBase64(image)), this.gradient, this.threshold);
+		const w = img.width;
+		const stride = w + 7 >> 3;
+		let r = '';
+		for (let z = 0; z < img.height; z += this.split) {
+			const h = Math.min(this.split, img.height - z);
+			const l = stride * h + 10;
+			r += '\x1d8L' + $(l, l >> 8, l >> 16, l >> 24, 48, 112, 48, 1, 1, 49, w, w >> 8, h, h >> 8);
+			r += bytes(img.data.subarray(z * stride, (z + h) * stride));
+			r += '\x1d(L' + $(2, 0, 48, 50);
+		}
+		this.escposHeight += img.height;
+		return r;
+	}
+
+	// print QR Code: GS ( k pL pH cn fn n1 n2 GS ( k pL pH cn fn n GS ( k pL pH cn fn n GS ( k pL pH cn fn m d1 ... dk GS ( k pL pH cn fn m
+	override async qrcode(symbol: QRCode, encoding: Encoding): Promise<string> {
+		const d = bytes(new TextEncoder().encode(symbol.data));
+		if (d.length === 0 || d.length > 7089) {
+			return '';
+		}
+		const l = d.length + 3;
+		// the printer selects the version, which is the same as the image without quiet zone
+		this.escposHeight += (await qrcodeImage({ ...symbol, cell: 1, quietZone: false })).height * symbol.cell;
+		return '\x1d(k' + $(4, 0, 49, 65, 50, 0) +
+			'\x1d(k' + $(3, 0, 49, 67, symbol.cell) +
+			'\x1d(k' + $(3, 0, 49, 69, qrlevel[symbol.level]) +
+			'\x1d(k' + $(l, l >> 8, 49, 80, 48) + d +
+			'\x1d(k' + $(3, 0, 49, 81, 48);
+	}
+
+	// print barcode: GS w n GS h n GS H n GS k m n d1 ... dn
+	override async barcode(symbol: Barcode, encoding: Encoding): Promise<string> {
+		// skip data that the symbology cannot represent
+		const bar = generateBarcode(symbol as BarcodeSymbol);
+		if (!bar.widths) {
+			return '';
+		}
+		let d = symbol.data;
+		const b = bartype[symbol.type] + Number(/upc|[ej]an/.test(symbol.type) && d.length < 9);
+		switch (b) {
+			case bartype.upc + 1:
+				d = d.slice(0, 7);
+				break;
+			case bartype.ean:
+				d = d.slice(0, 12);
+				break;
+			case bartype.ean + 1:
+				d = d.slice(0, 7);
+				break;
+			case bartype.code39:
+				d = d.replace(/^\*?([^*]+)\*?$/, '*$1*');
+				break;
+			case bartype.code128:
+				d = code128(d);
+				break;
+			default:
+				break;
+		}
+		if (d.length > 255) {
+			return '';
+		}
+		this.escposHeight += symbol.height + (symbol.hri ? this.charWidth * 2 : 0);
+		return '\x1dw' + $(symbol.width) + '\x1dh' + $(symbol.height) + '\x1dH' + $(symbol.hri ? 2 : 0) + '\x1dk' + $(b, d.length) + d;
+	}
+
+	override calculatedWidth(): number {
+		return this.cpl * this.charWidth;
+	}
+
+	override calculatedHeight(): number {
+		return this.escposHeight;
+	}
+
+	// convert output to bytes (one character per byte):
+	override contentBytes(content: string): Uint8Array {
+		return Uint8Array.from(content, c => c.charCodeAt(0) & 255);
+	}
+}
+
+// box drawing characters (code page 1)
+const ruleChars: Record<string, string> = {
+	'┼': '\x8f', '┴': '\x90', '┬': '\x91', '┤': '\x92', '├': '\x93', '─': '\x95', '│': '\x96',
+	'┌': '\x98', '┐': '\x99', '└': '\x9a', '┘': '\x9b', '╭': '\x9c', '╮': '\x9d', '╰': '\x9e', '╯': '\x9f'
+};
+
+// QR Code error correction levels
+const qrlevel: Record<QRCode['level'], number> = { l: 48, m: 49, q: 50, h: 51 };
+
+// barcode types (GS k m, function B)
+const bartype: Record<Barcode['type'], number> = {
+	upc: 65, ean: 67, jan: 67, code39: 69, itf: 70, codabar: 71, nw7: 71, code93: 72, code128: 73
+};
+
+// convert CODE128 data to ESC/POS code set notation:
+function code128(data: string): string {
+	// code set C for an even number of digits
+	if (/^(\d\d)+$/.test(data)) {
+		return '{C' + data.replace(/\d\d/g, c => $(Number(c)));
+	}
+	// code set A for control codes without lowercase letters
+	if (/[\x00-\x1f]/.test(data) && /^[\x00-\x5f]+$/.test(data)) {
+		return '{A' + data;
+	}
+	// code set B
+	return '{B' + data.replace(/[\x00-\x1f]/g, '').replace(/{/g, '{{');
+}
@@ -0,0 +1,102 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import { RasterTarget } from './raster.ts';
+import type { ParsedPrinter } from '../types.ts';
+
+// convert byte values to a command string (one character per byte)
+const $ = (...bytes: number[]): string => String.fromCharCode(...bytes.map(b => b & 255));
+
+// convert byte array to a command string
+const bytes = (data: Uint8Array): string => {
+	let r = '';
+	for (let i = 0; i < data.length; i += 4096) {
+		r += String.fromCharCode(...data.subarray(i, i + 4096));
+	}
+	return r;
+};
+
+/**
+ * Raster ESC/POS target class for ReceiptLine commands.
+ * The whole receipt is drawn like the raster target and printed as images,
+ * for printers without the fonts or code pages of the document.
+ * The image is sent at each paper cut, so one image never spans more than one cut.
+ * Each character of the output is one byte to send to the printer.
+ */
+export class EscPosRasterTarget extends RasterTarget {
+	margin: number = 0;
+	// height of images already sent (unit: dots)
+	escposHeight: number = 0;
+	// use GS ( L graphics instead of GS v 0
+	graphics: boolean = false;
+	// maximum image band height (unit: dots)
+	split: number = 512;
+
+	setGraphics(graphics: boolean): void {
+		this.graphics = graphics;
+	}
+
+	// start printing: ESC @ GS L nL nH
+	override async open(printer: ParsedPrinter): Promise<string> {
+		await super.open(printer);
+		this.margin = printer.margin;
+		this.escposHeight = 0;
+		const m = this.margin * this.charWidth;
+		return '\x1b@\x1dL' + $(m, m >> 8);
+	}
+
+	// finish printing:
+	override async close(): Promise<string> {
+		return this.flush();
+	}
+
+	// print image drawn so far and start over:
+	protected flush(): string {
+		if (this.rasterHeight <= 0) {
+			return '';
+		}
+		const img = this.bitmap();
+		const w = img.width;
+		const stride = w + 7 >> 3;
+		// band height within the parameter range of GS ( L
+		const split = Math.max(Math.min(this.split, Math.floor((65535 - 10) / stride)), 1);
+		let r = '';
+		for (let z = 0; z < img.height; z += split) {
+			const h = Math.min(split, img.height - z);
+			const data = bytes(img.data.subarray(z * stride, (z + h) * stride));
+			if (this.graphics) {
+				// GS ( L pL pH m fn a bx by c xL xH yL yH d1 ... dk GS ( L pL pH m fn
+				const l = stride * h + 10;
+				r += '\x1d(L' + $(l, l >> 8, 48, 112, 48, 1, 1, 49, w, w >> 8, h, h >> 8) + data + '\x1d(L' + $(2, 0, 48, 50);
+			}
+			else {
+				// GS v 0 m xL xH yL yH d1 ... dk
+				r += '\x1dv0\x00' + $(stride, stride >> 8, h, h >> 8) + data;
+			}
+		}
+		this.escposHeight += img.height;
+		this.pixels = new Uint8Array(0);
+		this.rasterHeight = 0;
+		return r;
+	}
+
+	// cut paper: GS V m n
+	override async cut(): Promise<string> {
+		return this.flush() + '\x1dVB\x00';
+	}
+
+	// insert commands:
+	override async command(command: string): Promise<string> {
+		return this.flush() + command;
+	}
+
+	override calculatedHeight(): number {
+		return this.escposHeight + this.rasterHeight;
+	}
+
+	// convert output to bytes (one character per byte):
+	override contentBytes(content: string): Uint8Array {
+		return Uint8Array.from(content, c => c.charCodeAt(0) & 255);
+	}
+}
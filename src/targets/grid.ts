@@ -0,0 +1,126 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+// Character grid for targets that print a whole line at a time (impact printers, plain text).
+// Text and rules are placed at column positions, then the line is printed from left to right.
+
+export type GridCell = {
+	text: string;
+	width: number; // columns occupied (unit: characters)
+	scale: number; // character width scale
+	height: number; // character height scale
+	ul: boolean;
+	em: boolean;
+	iv: boolean;
+	rule: boolean;
+};
+
+export type GridStyle = {
+	ul: boolean;
+	em: boolean;
+	iv: boolean;
+	width: number; // printed character width scale
+	height: number; // printed character height scale
+	rule: boolean; // box drawing characters
+};
+
+const blank: GridCell = { text: ' ', width: 1, scale: 1, height: 1, ul: false, em: false, iv: false, rule: false };
+
+export class CharacterGrid {
+	line: (GridCell | undefined)[] = [];
+	position: number = 0;
+	decoration = { ul: false, em: false, iv: false, wh: 0 };
+
+	/**
+	 * Clear the line and text decoration.
+	 */
+	clear(): void {
+		this.line = [];
+		this.position = 0;
+		this.normal();
+	}
+
+	/**
+	 * Cancel text decoration.
+	 */
+	normal(): void {
+		this.decoration = { ul: false, em: false, iv: false, wh: 0 };
+	}
+
+	/**
+	 * Put box drawing characters at the current position.
+	 * @param rule box drawing characters
+	 * @param height character height scale
+	 */
+	rule(rule: string, height: number): void {
+		for (const c of rule) {
+			this.line[Math.floor(this.position++)] = { ...blank, text: c, height: height, rule: c !== ' ' };
+		}
+	}
+
+	/**
+	 * Put decorated text at the current position.
+	 * @param chars characters (from arrayFrom)
+	 * @param measure character width
+	 */
+	text(chars: string[], measure: (c: string) => number): void {
+		const { ul, em, iv, wh } = this.decoration;
+		// wh 1: double width, 2: double height, 3-7: 2-6 times
+		const w = wh < 3 ? (wh & 1) + 1 : wh - 1;
+		const h = wh < 3 ? (wh >> 1 & 1) + 1 : wh - 1;
+		for (const c of chars) {
+			const width = measure(c) * w;
+			if (width === 0) {
+				continue;
+			}
+			// centered text may start at half a column
+			const p = Math.floor(this.position);
+			this.line[p] = { text: c, width: width, scale: w, height: h, ul: ul, em: em, iv: iv, rule: false };
+			// remove characters covered by this character
+			for (let i = 1; i < width; i++) {
+				this.line[p + i] = undefined;
+			}
+			this.position += width;
+		}
+	}
+
+	/**
+	 * Print the line from left to right and clear it.
+	 * Characters larger than the printer supports keep their columns with spaces.
+	 * @param maxScale maximum character scale supported by the printer
+	 * @param style convert style changes to commands, called with normal style at the end of the line
+	 * @param char convert a character to commands
+	 * @returns commands
+	 */
+	flush(maxScale: number, style: (style: GridStyle) => string, char: (text: string, rule: boolean) => string): string {
+		const key = (s: GridStyle): string => `${Number(s.ul)}${Number(s.em)}${Number(s.iv)}${s.width}${s.height}${Number(s.rule)}`;
+		let current: GridStyle = { ul: false, em: false, iv: false, width: 1, height: 1, rule: false };
+		let r = '';
+		const select = (s: GridStyle): void => {
+			if (key(s) !== key(current)) {
+				r += style(s);
+				current = s;
+			}
+		};
+		for (let i = 0; i < this.line.length;) {
+			const c = this.line[i] ?? blank;
+			// spaces keep the code page of the previous character
+			const rule = c.text === ' ' ? current.rule : c.rule;
+			const w = Math.min(c.scale, maxScale);
+			const h = Math.min(c.height, maxScale);
+			const printed = c.width / c.scale * w;
+			select({ ul: c.ul, em: c.em, iv: c.iv, width: w, height: h, rule: rule });
+			r += char(c.text, rule);
+			if (printed < c.width) {
+				select({ ul: c.ul, em: c.em, iv: c.iv, width: 1, height: h, rule: rule });
+				r += char(' ', rule).repeat(c.width - printed);
+			}
+			i += c.width;
+		}
+		select({ ul: false, em: false, iv: false, width: 1, height: 1, rule: false });
+		this.line = [];
+		this.position = 0;
+		return r;
+	}
+}
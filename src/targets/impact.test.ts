@@ -0,0 +1,30 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import { describe, expect, test } from 'bun:test';
+import { transform } from '../index.ts';
+import { indexedPng } from '@levischuck/tiny-png';
+import { encodeBase64 } from '@levischuck/tiny-encodings';
+
+// 4 x 2 dots: ##.. / .##.
+const png = async (): Promise<string> => encodeBase64(await indexedPng(Uint8Array.from([1, 1, 0, 0, 0, 1, 1, 0]), 4, 2, [[255, 255, 255], [0, 0, 0]]));
+
+describe('ImpactTarget', () => {
+	test('composes lines on the character grid and prints images with shade characters', async () => {
+		const doc = `{w:4,*;b:line}\n|"A"|^^B^^|\n{w:auto;b:space}\n_x_ \`y\` ^^^z\n{i:${await png()}}\n{c:123;o:code128,2,40,hri}\n---\n=`;
+		const result = await transform(doc, { cpl: 16, target: 'impact' });
+		expect(result.content).toBe(
+			'\x1b@\x1b \x00\x1b3\x00\x1c.\x1bt\x00\x1b3\x00\x1c.\x1bt\x00\x1b!\x00\x1br\x00\xda\xc4\xc4\xc4\xc4\xc2\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xbf\x1c.\x1bt\x00\x1b!\x00\x1br\x00\n' +
+			'\x1c.\x1bt\x00\x1b!\x10\x1br\x00\xb3 \x1c.\x1bt\x00\x1b!\x00\x1br\x01A\x1b!\x10\x1br\x00  \x1c.\x1bt\x00\x1b!\x10\x1br\x00\xb3    \x1c.\x1bt\x00\x1b!\x10\x1br\x00B    \x1c.\x1bt\x00\x1b!\x10\x1br\x00\xb3\x1c.\x1bt\x00\x1b!\x00\x1br\x00\n' +
+			'\x1b3\x00\x1c.\x1bt\x00\x1b!\x00\x1br\x00\xc0\xc4\xc4\xc4\xc4\xc1\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xd9\x1c.\x1bt\x00\x1b!\x00\x1br\x00\n' +
+			'     \x1b!\x80\x1br\x00x\x1b!\x00\x1br\x00 \x1b!\x00\x1br\x01y\x1b!\x00\x1br\x00 \x1b!0\x1br\x00z\x1b!\x00\x1br\x00\n' +
+			'\x1b3\x00\x1c.\x1bt\x00       \xb1\n' +
+			'\x1b3\x00\x1c.\x1bt\x00      123\n' +
+			'\x1c.\x1bt\x00\x1b!\x00\x1br\x00\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\x1c.\x1bt\x00\x1b!\x00\x1br\x00\n' +
+			'\x1dVB\x00'
+		);
+		expect(result.width).toBe(224);
+		expect(result.height).toBe(252);
+	});
+});
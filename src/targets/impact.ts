@@ -0,0 +1,252 @@
+/*
+Copyright 2019 Open Foodservice System Consortium
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+	http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { EscPosTarget } from './escpos.ts';
+import type { Encoding, ParsedPrinter, QRCode, Barcode } from '../types.ts';
+import { generate as generateBarcode, type BarcodeSymbol } from '../barcode.ts';
+import { decodePng, grayscale, qrcodeImage } from '../image.ts';
+import { hrRule, vrRule, vrstartRule, vrstopRule, vrhrRule } from './rules.ts';
+import { CharacterGrid, type GridStyle } from './grid.ts';
+import { decodeBase64 } from '@levischuck/tiny-encodings';
+
+// convert byte values to a command string (one character per byte)
+const $ = (...bytes: number[]): string => String.fromCharCode(...bytes.map(b => b & 255));
+
+/**
+ * Impact (dot matrix) ESC/POS target class for ReceiptLine commands (Epson TM-U220 and compatible printers).
+ * Everything is printed on the character grid: emphasized and inverted text is printed in red,
+ * rules use box drawing characters, and images are approximated with shade characters.
+ * Each character of the output is one byte to send to the printer.
+ */
+export class ImpactTarget extends EscPosTarget {
+	encoding: Encoding = 'cp437';
+	// maximum character scale supported by the printer
+	maxScale: number = 2;
+	// print area (unit: characters)
+	left: number = 0;
+	width: number = 40;
+	alignment: number = 1;
+	// line buffer
+	grid: CharacterGrid = new CharacterGrid();
+
+	// start printing: ESC @ ESC SP n (ESC 2) (ESC 3 n) FS . ESC t n
+	override async open(printer: ParsedPrinter): Promise<string> {
+		await super.open(printer);
+		this.encoding = printer.encoding;
+		this.grid.clear();
+		return '\x1b@\x1b \x00' + (this.spacing ? '\x1b2' : '\x1b3\x00') + this.codepage(printer.encoding);
+	}
+
+	// set print area:
+	override async area(left: number, width: number, right: number): Promise<string> {
+		this.left = this.margin + left;
+		this.width = width;
+		return '';
+	}
+
+	// set line alignment:
+	override async align(align: number): Promise<string> {
+		this.alignment = align;
+		return '';
+	}
+
+	// set absolute print position:
+	override async absolute(position: number): Promise<string> {
+		this.grid.position = position;
+		return '';
+	}
+
+	// set relative print position:
+	override async relative(position: number): Promise<string> {
+		this.grid.position += position;
+		return '';
+	}
+
+	// print horizontal rule:
+	override async hr(width: number): Promise<string> {
+		this.grid.rule(hrRule(width), 1);
+		return '';
+	}
+
+	// print vertical rules:
+	override async vr(widths: number[], height: number): Promise<string> {
+		this.grid.rule(vrRule(widths), height);
+		return '';
+	}
+
+	// start rules:
+	override async vrstart(widths: number[]): Promise<string> {
+		this.grid.rule(vrstartRule(widths), 1);
+		return '';
+	}
+
+	// stop rules:
+	override async vrstop(widths: number[]): Promise<string> {
+		this.grid.rule(vrstopRule(widths), 1);
+		return '';
+	}
+
+	// print vertical and horizontal rules:
+	override async vrhr(widths1: number[], widths2: number[], dl: number, dr: number): Promise<string> {
+		this.grid.rule(vrhrRule(widths1, widths2, dl, dr), 1);
+		return '';
+	}
+
+	// convert box drawing characters to code page 437:
+	protected override rule(rule: string): string {
+		return rule.replace(/[^ ]/g, c => boxChars[c] ?? ' ');
+	}
+
+	// underline text:
+	override async ul(): Promise<string> {
+		this.grid.decoration.ul = true;
+		return '';
+	}
+
+	// emphasize text (red):
+	override async em(): Promise<string> {
+		this.grid.decoration.em = true;
+		return '';
+	}
+
+	// invert text (red):
+	override async iv(): Promise<string> {
+		this.grid.decoration.iv = true;
+		return '';
+	}
+
+	// scale up text:
+	override async wh(wh: number): Promise<string> {
+		this.grid.decoration.wh = wh;
+		return '';
+	}
+
+	// cancel text decoration:
+	override async normal(): Promise<string> {
+		this.grid.normal();
+		return '';
+	}
+
+	// print text:
+	override async text(text: string, encoding: Encoding): Promise<string> {
+		this.grid.text(this.arrayFrom(text, encoding), c => this.measureText(c, encoding));
+		return '';
+	}
+
+	// feed new line: ESC ! n ESC r n FS . ESC t n ... LF
+	override async lf(): Promise<string> {
+		let rule = false;
+		let height = 1;
+		const style = (s: GridStyle): string => {
+			// switch code pages between rules and text
+			const r = s.rule !== rule ? this.codepage(s.rule ? 'cp437' : this.encoding) : '';
+			rule = s.rule;
+			height = Math.max(height, s.height);
+			return r + '\x1b!' + $((s.ul ? 0x80 : 0) | (s.width > 1 ? 0x20 : 0) | (s.height > 1 ? 0x10 : 0)) + '\x1br' + $(Number(s.em || s.iv));
+		};
+		const line = ' '.repeat(this.left) + this.grid.flush(this.maxScale, style, (c, rule) => rule ? this.rule(c) : this.encode(c, this.encoding)) + '\n';
+		this.escposHeight += Math.max(height * this.charWidth * 2, this.feedMinimum);
+		return line;
+	}
+
+	// print aligned rows of code page 437 characters: ESC 3 n FS . ESC t n ... LF ... (ESC 2) (ESC 3 n) FS . ESC t n
+	protected rows(rows: string[]): string {
+		const w = rows.reduce((a, row) => Math.max(a, row.length), 0);
+		const indent = ' '.repeat(this.left + Math.max(Math.floor((this.width - w) * this.alignment / 2), 0));
+		this.escposHeight += rows.length * this.charWidth * 2;
+		return '\x1b3\x00' + this.codepage('cp437') +
+			rows.map(row => indent + this.rule(row) + '\n').join('') +
+			(this.spacing ? '\x1b2' : '\x1b3\x00') + this.codepage(this.encoding);
+	}
+
+	// print image as shade characters:
+	override async image(image: string): Promise<string> {
+		const img = await decodePng(decodeBase64(image));
+		const gray = grayscale(img);
+		// one character covers a cell twice as tall as it is wide
+		const columns = Math.max(Math.min(Math.ceil(img.width / this.charWidth), this.width), 1);
+		const sx = img.width / columns;
+		const sy = sx * 2;
+		const rows: string[] = [];
+		for (let y = 0; y < img.height; y += sy) {
+			let row = '';
+			for (let x = 0; x < columns; x++) {
+				// average luminance of the cell
+				const x0 = Math.floor(x * sx), x1 = Math.max(Math.floor((x + 1) * sx), x0 + 1);
+				const y0 = Math.floor(y), y1 = Math.min(Math.max(Math.floor(y + sy), y0 + 1), img.height);
+				let sum = 0;
+				for (let j = y0; j < y1; j++) {
+					for (let i = x0; i < x1; i++) {
+						sum += gray[j * img.width + i] ?? 255;
+					}
+				}
+				const v = sum / ((y1 - y0) * (x1 - x0));
+				row += shades[Math.round((255 - v) * 4 / 255)] ?? ' ';
+			}
+			rows.push(row);
+		}
+		return this.rows(rows);
+	}
+
+	// print QR Code as half block characters:
+	override async qrcode(symbol: QRCode, encoding: Encoding): Promise<string> {
+		if (symbol.data.length === 0) {
+			return '';
+		}
+		// one module per column and two modules per character
+		const img = await qrcodeImage({ ...symbol, cell: 1 });
+		if (img.width > this.width) {
+			return '';
+		}
+		const stride = img.width + 7 >> 3;
+		const dot = (x: number, y: number): number => y < img.height && (img.data[y * stride + (x >> 3)] ?? 0) & 0x80 >> (x & 7) ? 1 : 0;
+		const rows: string[] = [];
+		for (let y = 0; y < img.height; y += 2) {
+			let row = '';
+			for (let x = 0; x < img.width; x++) {
+				row += halfBlocks[dot(x, y) << 1 | dot(x, y + 1)];
+			}
+			rows.push(row);
+		}
+		return this.rows(rows);
+	}
+
+	// print barcode as human readable interpretation:
+	override async barcode(symbol: Barcode, encoding: Encoding): Promise<string> {
+		// skip data that the symbology cannot represent
+		const bar = generateBarcode(symbol as BarcodeSymbol);
+		if (!bar.widths) {
+			return '';
+		}
+		const text = this.encode(bar.text ?? symbol.data, encoding).slice(0, this.width);
+		const indent = ' '.repeat(this.left + Math.max(Math.floor((this.width - text.length) * this.alignment / 2), 0));
+		this.escposHeight += Math.max(this.charWidth * 2, this.feedMinimum);
+		return indent + text + '\n';
+	}
+}
+
+// box drawing and block characters (code page 437)
+const boxChars: Record<string, string> = {
+	'┼': '\xc5', '┴': '\xc1', '┬': '\xc2', '┤': '\xb4', '├': '\xc3', '─': '\xc4', '│': '\xb3',
+	'┌': '\xda', '┐': '\xbf', '└': '\xc0', '┘': '\xd9', '╭': '\xda', '╮': '\xbf', '╰': '\xc0', '╯': '\xd9',
+	'░': '\xb0', '▒': '\xb1', '▓': '\xb2', '█': '\xdb', '▀': '\xdf', '▄': '\xdc'
+};
+
+// shade characters from white to black
+const shades = [' ', '░', '▒', '▓', '█'];
+
+// half block characters (upper dot, lower dot)
+const halfBlocks: Record<number, string> = { 0: ' ', 1: '▄', 2: '▀', 3: '█' };
@@ -2,10 +2,38 @@ import { BaseTarget } from "./base.ts";
 import { SvgTarget } from "./svg.ts";
 import { HtmlTarget } from "./html.ts";
 import { AuditTarget } from "./audit.ts";
+import { EscPosTarget } from "./escpos.ts";
+import { StarTarget } from "./star.ts";
+import { StarLineTarget } from "./starline.ts";
+import { ImpactTarget } from "./impact.ts";
+import { EposTarget } from "./epos.ts";
+import { WebPrntTarget } from "./webprnt.ts";
+import { ZplTarget } from "./zpl.ts";
+import { RasterTarget } from "./raster.ts";
+import { PngTarget } from "./png.ts";
+import { EscPosRasterTarget } from "./escposraster.ts";
+import { PdfTarget } from "./pdf.ts";
+import { TextTarget } from "./text.ts";
+import { AnsiTarget } from "./ansi.ts";
+import { LayoutTarget } from "./layout.ts";
 
 export default {
 	base: new BaseTarget(),
 	svg: new SvgTarget(),
 	html: new HtmlTarget(),
 	audit: new AuditTarget(),
+	escpos: new EscPosTarget(),
+	star: new StarTarget(),
+	starline: new StarLineTarget(),
+	impact: new ImpactTarget(),
+	epos: new EposTarget(),
+	webprnt: new WebPrntTarget(),
+	zpl: new ZplTarget(),
+	raster: new RasterTarget(),
+	png: new PngTarget(),
+	escposraster: new EscPosRasterTarget(),
+	pdf: new PdfTarget(),
+	text: new TextTarget(),
+	ansi: new AnsiTarget(),
+	layout: new LayoutTarget(),
 };
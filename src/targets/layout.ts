@@ -0,0 +1,367 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import { BaseTarget } from './base.ts';
+import type { Encoding, ParsedPrinter, QRCode, Barcode } from '../types.ts';
+import { generate as generateBarcode, type BarcodeSymbol } from '../barcode.ts';
+import { qrcodeImage } from '../image.ts';
+import { decodeBase64 } from '@levischuck/tiny-encodings';
+import { readPngIHDR } from '@levischuck/tiny-png';
+
+// Positioned document model of the layout target.
+// Positions and sizes are in dots, from the top left corner of the receipt, as in the SVG target.
+
+export type LayoutDocument = {
+	width: number;
+	height: number;
+	cpl: number;
+	charWidth: number;
+	encoding: Encoding;
+	items: LayoutItem[];
+};
+
+export type LayoutItem = LayoutLine | LayoutImage | LayoutBarcode | LayoutQRCode | LayoutCut;
+
+export type LayoutLine = {
+	type: 'line';
+	y: number;
+	height: number; // line feed including line spacing
+	text: LayoutText[];
+	rules: LayoutSegment[];
+};
+
+export type LayoutText = {
+	x: number;
+	y: number; // top of the text, aligned to the bottom of the line
+	width: number;
+	height: number;
+	text: string;
+	scale: { width: number; height: number };
+	ul: boolean;
+	em: boolean;
+	iv: boolean;
+};
+
+export type LayoutSegment = {
+	x1: number;
+	y1: number;
+	x2: number;
+	y2: number;
+};
+
+export type LayoutImage = {
+	type: 'image';
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+	data: string; // base64 encoded PNG
+};
+
+export type LayoutBarcode = {
+	type: 'barcode';
+	x: number;
+	y: number;
+	width: number;
+	height: number; // including human readable interpretation
+	symbology: Barcode['type'];
+	data: string;
+	text: string; // human readable interpretation
+	hri: boolean;
+	widths: number[]; // spaces and bars from the left, odd elements are bars
+};
+
+export type LayoutQRCode = {
+	type: 'qrcode';
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+	data: string;
+	level: QRCode['level'];
+	cell: number;
+	quietZone: boolean;
+};
+
+export type LayoutCut = {
+	type: 'cut';
+	y: number;
+};
+
+/**
+ * Layout target class for ReceiptLine commands.
+ * The content is the JSON of the positioned document model (LayoutDocument),
+ * to render natively or to compare layouts without parsing SVG.
+ */
+export class LayoutTarget extends BaseTarget {
+	charWidth: number = 12;
+	spacing: boolean = false;
+	encoding: Encoding = 'cp437';
+	layoutWidth: number = 576;
+	layoutHeight: number = 0;
+	items: LayoutItem[] = [];
+	lineMargin: number = 0;
+	lineAlign: number = 0;
+	lineWidth: number = 48;
+	lineHeight: number = 1;
+	lineText: LayoutText[] = [];
+	lineRules: LayoutSegment[] = [];
+	textPosition: number = 0;
+	textDecoration = { ul: false, em: false, iv: false, width: 1, height: 1 };
+	feedMinimum: number = 24;
+
+	// start printing:
+	override async open(printer: ParsedPrinter): Promise<string> {
+		await super.open(printer);
+		this.charWidth = printer.charWidth;
+		this.spacing = printer.spacing;
+		this.encoding = printer.encoding;
+		this.layoutWidth = this.cpl * printer.charWidth;
+		this.layoutHeight = 0;
+		this.items = [];
+		this.lineMargin = 0;
+		this.lineAlign = 0;
+		this.lineWidth = this.cpl;
+		this.lineHeight = 1;
+		this.lineText = [];
+		this.lineRules = [];
+		this.textPosition = 0;
+		await this.normal();
+		this.feedMinimum = this.charWidth * (this.spacing ? 2.5 : 2);
+		return '';
+	}
+
+	// finish printing:
+	override async close(): Promise<string> {
+		const doc: LayoutDocument = {
+			width: this.calculatedWidth(),
+			height: this.calculatedHeight(),
+			cpl: this.cpl,
+			charWidth: this.charWidth,
+			encoding: this.encoding,
+			items: this.items
+		};
+		return JSON.stringify(doc);
+	}
+
+	// horizontal position of aligned content:
+	protected x(width: number): number {
+		return Math.floor(this.lineMargin * this.charWidth + (this.lineWidth * this.charWidth - width) * this.lineAlign / 2);
+	}
+
+	// vertical line positions (unit: dots)
+	protected lines(widths: number[], offset: number = 0): number[] {
+		let p = this.lineMargin + offset;
+		return [p, ...widths.map(w => p += w + 1)].map(p => p * this.charWidth + this.charWidth / 2);
+	}
+
+	// add horizontal segment between the first and last vertical lines:
+	protected horizontal(x: number[], y: number): void {
+		this.lineRules.push({ x1: Math.min(...x), y1: y, x2: Math.max(...x), y2: y });
+	}
+
+	// add vertical segments:
+	protected vertical(x: number[], y1: number, y2: number): void {
+		this.lineRules.push(...x.map(p => ({ x1: p, y1: y1, x2: p, y2: y2 })));
+	}
+
+	// set print area:
+	override async area(left: number, width: number, right: number): Promise<string> {
+		this.lineMargin = left;
+		this.lineWidth = width;
+		return '';
+	}
+
+	// set line alignment:
+	override async align(align: number): Promise<string> {
+		this.lineAlign = align;
+		return '';
+	}
+
+	// set absolute print position:
+	override async absolute(position: number): Promise<string> {
+		this.textPosition = position;
+		return '';
+	}
+
+	// set relative print position:
+	override async relative(position: number): Promise<string> {
+		this.textPosition += position;
+		return '';
+	}
+
+	// print horizontal rule:
+	override async hr(width: number): Promise<string> {
+		const x = this.lineMargin * this.charWidth;
+		this.horizontal([x, x + width * this.charWidth], this.layoutHeight + this.charWidth);
+		return '';
+	}
+
+	// print vertical rules:
+	override async vr(widths: number[], height: number): Promise<string> {
+		this.vertical(this.lines(widths), this.layoutHeight, this.layoutHeight + this.charWidth * 2 * height);
+		return '';
+	}
+
+	// start rules:
+	override async vrstart(widths: number[]): Promise<string> {
+		const x = this.lines(widths);
+		const y = this.layoutHeight + this.charWidth;
+		this.horizontal(x, y);
+		this.vertical(x, y, y + this.charWidth);
+		return '';
+	}
+
+	// stop rules:
+	override async vrstop(widths: number[]): Promise<string> {
+		const x = this.lines(widths);
+		const y = this.layoutHeight + this.charWidth;
+		this.vertical(x, y - this.charWidth, y);
+		this.horizontal(x, y);
+		return '';
+	}
+
+	// print vertical and horizontal rules:
+	override async vrhr(widths1: number[], widths2: number[], dl: number, dr: number): Promise<string> {
+		const x1 = this.lines(widths1, Math.max(-dl, 0));
+		const x2 = this.lines(widths2, Math.max(dl, 0));
+		const y = this.layoutHeight + this.charWidth;
+		this.vertical(x1, y - this.charWidth, y);
+		this.horizontal([...x1, ...x2], y);
+		this.vertical(x2, y, y + this.charWidth);
+		return '';
+	}
+
+	// set line spacing and feed new line:
+	override async vrlf(vr: boolean): Promise<string> {
+		this.feedMinimum = this.charWidth * (!vr && this.spacing ? 2.5 : 2);
+		return await this.lf();
+	}
+
+	// cut paper:
+	override async cut(): Promise<string> {
+		this.items.push({ type: 'cut', y: this.layoutHeight + this.charWidth });
+		this.layoutHeight += Math.max(this.charWidth * 2, this.feedMinimum);
+		return '';
+	}
+
+	// underline text:
+	override async ul(): Promise<string> {
+		this.textDecoration.ul = true;
+		return '';
+	}
+
+	// emphasize text:
+	override async em(): Promise<string> {
+		this.textDecoration.em = true;
+		return '';
+	}
+
+	// invert text:
+	override async iv(): Promise<string> {
+		this.textDecoration.iv = true;
+		return '';
+	}
+
+	// scale up text:
+	override async wh(wh: number): Promise<string> {
+		const w = wh < 3 ? (wh & 1) + 1 : wh - 1;
+		const h = wh < 3 ? (wh >> 1 & 1) + 1 : wh - 1;
+		this.textDecoration.width = w;
+		this.textDecoration.height = h;
+		this.lineHeight = Math.max(this.lineHeight, h);
+		return '';
+	}
+
+	// cancel text decoration:
+	override async normal(): Promise<string> {
+		this.textDecoration = { ul: false, em: false, iv: false, width: 1, height: 1 };
+		return '';
+	}
+
+	// print text:
+	override async text(text: string, encoding: Encoding): Promise<string> {
+		const { ul, em, iv, width, height } = this.textDecoration;
+		const w = this.measureText(text, encoding) * width;
+		this.lineText.push({
+			x: (this.lineMargin + this.textPosition) * this.charWidth,
+			y: 0,
+			width: w * this.charWidth,
+			height: height * this.charWidth * 2,
+			text: text,
+			scale: { width: width, height: height },
+			ul: ul,
+			em: em,
+			iv: iv
+		});
+		this.textPosition += w;
+		return '';
+	}
+
+	// feed new line:
+	override async lf(): Promise<string> {
+		const h = this.lineHeight * this.charWidth * 2;
+		const height = Math.max(h, this.feedMinimum);
+		// align text to the bottom of the line
+		const text = this.lineText.map(t => ({ ...t, y: this.layoutHeight + h - t.height }));
+		this.items.push({ type: 'line', y: this.layoutHeight, height: height, text: text, rules: this.lineRules });
+		this.layoutHeight += height;
+		this.lineHeight = 1;
+		this.lineText = [];
+		this.lineRules = [];
+		this.textPosition = 0;
+		return '';
+	}
+
+	// insert commands:
+	override async command(command: string): Promise<string> {
+		return '';
+	}
+
+	// print image:
+	override async image(image: string): Promise<string> {
+		const { width, height } = readPngIHDR(decodeBase64(image));
+		this.items.push({ type: 'image', x: this.x(width), y: this.layoutHeight, width: width, height: height, data: image });
+		this.layoutHeight += height;
+		return '';
+	}
+
+	// print QR Code:
+	override async qrcode(symbol: QRCode, encoding: Encoding): Promise<string> {
+		if (symbol.data.length === 0) {
+			return '';
+		}
+		const { width, height } = await qrcodeImage(symbol);
+		this.items.push({
+			type: 'qrcode', x: this.x(width), y: this.layoutHeight, width: width, height: height,
+			data: symbol.data, level: symbol.level, cell: symbol.cell, quietZone: symbol.quietZone ?? false
+		});
+		this.layoutHeight += height;
+		return '';
+	}
+
+	// print barcode:
+	override async barcode(symbol: Barcode, encoding: Encoding): Promise<string> {
+		const bar = generateBarcode(symbol as BarcodeSymbol);
+		if (bar.height === undefined || !bar.widths) {
+			return '';
+		}
+		const width = bar.widths.reduce((a, w) => a + w, 0);
+		const height = bar.height + (bar.hri ? this.charWidth * 2 + 2 : 0);
+		this.items.push({
+			type: 'barcode', x: this.x(width), y: this.layoutHeight, width: width, height: height,
+			symbology: symbol.type, data: symbol.data, text: bar.text ?? symbol.data, hri: bar.hri ?? false, widths: bar.widths
+		});
+		this.layoutHeight += height;
+		return '';
+	}
+
+	override calculatedWidth(): number {
+		return this.layoutWidth;
+	}
+
+	override calculatedHeight(): number {
+		return this.layoutHeight;
+	}
+}
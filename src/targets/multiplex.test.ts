@@ -0,0 +1,37 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import { describe, expect, test } from 'bun:test';
+import { transform, transformBytes } from '../index.ts';
+import { MultiplexTarget } from './multiplex.ts';
+import { EscPosTarget } from './escpos.ts';
+import { HtmlTarget } from './html.ts';
+import { AnsiTarget } from './ansi.ts';
+import { TextTarget } from './text.ts';
+
+const doc = '|Hello|World|\n---\n{c:1234;o:code128,2,40,hri}';
+
+describe('MultiplexTarget', () => {
+	test('collects the output of each target', async () => {
+		const multiplex = new MultiplexTarget();
+		multiplex.setTargets([new EscPosTarget(), new EscPosTarget()]);
+		const result = await transform(doc, { cpl: 16, target: multiplex });
+		expect(result.content).toBe('');
+		const expected = await transformBytes(doc, { cpl: 16, target: 'escpos' });
+		expect(multiplex.contents[1]).toBe(multiplex.contents[0] ?? '');
+		expect(multiplex.contentBytes(multiplex.contents[1] ?? '', 1)).toEqual(expected.content);
+		expect(() => multiplex.contentBytes('', 2)).toThrow('No target at index 2');
+	});
+
+	test('rejects targets that do not share the layout', async () => {
+		// ANSI barcodes are wider than the placeholder text of TextTarget
+		expect(() => new MultiplexTarget().setTargets([new TextTarget(), new AnsiTarget()])).toThrow('Targets do not share the layout');
+		// characters per line of HtmlTarget depend on the font
+		const html = new HtmlTarget();
+		html.setActualFontCharacterWidth(8);
+		const multiplex = new MultiplexTarget();
+		multiplex.setTargets([new HtmlTarget(), html]);
+		await expect(transform(doc, { cpl: 16, target: multiplex })).rejects.toThrow('Targets do not share the layout');
+	});
+});
@@ -0,0 +1,234 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import { BaseTarget } from './base.ts';
+import type { Encoding, ParsedPrinter, QRCode, Barcode, BaseTargetInterface } from '../types.ts';
+
+/**
+ * Multiplexing target class for ReceiptLine commands.
+ * Each command is forwarded to several targets, and the output of each target is collected in `contents`.
+ * Text is laid out with the characters per line and text measurement of the first target,
+ * so the targets must share them (transformMany() groups the targets that way).
+ */
+export class MultiplexTarget extends BaseTarget {
+	targets: BaseTargetInterface[] = [];
+	contents: string[] = [];
+
+	/**
+	 * Set the targets to forward the commands to.
+	 * Characters per line are checked when printing starts, because targets set them in open().
+	 * @param {BaseTargetInterface[]} targets targets with the same text measurement, glyphs, and barcode widths
+	 */
+	setTargets(targets: BaseTargetInterface[]): void {
+		if (targets.some(target => targets[0] && !shareMeasurement(targets[0], target))) {
+			throw new Error('Targets do not share the layout');
+		}
+		this.targets = targets;
+		this.contents = targets.map(() => '');
+	}
+
+	override get cpl(): number {
+		return this.targets[0]?.cpl ?? this._cpl;
+	}
+
+	override measureText(text: string, encoding: Encoding): number {
+		return this.targets[0] ? this.targets[0].measureText(text, encoding) : super.measureText(text, encoding);
+	}
+
+	override arrayFrom(text: string, encoding: Encoding): string[] {
+		return this.targets[0] ? this.targets[0].arrayFrom(text, encoding) : super.arrayFrom(text, encoding);
+	}
+
+	// append output of each target (sequential to maintain command order):
+	protected async forward(command: (target: BaseTargetInterface) => Promise<string>): Promise<string> {
+		for (let i = 0; i < this.targets.length; i++) {
+			const target = this.targets[i];
+			if (target) {
+				this.contents[i] = (this.contents[i] ?? '') + await command(target);
+			}
+		}
+		return '';
+	}
+
+	// start printing:
+	override async open(printer: ParsedPrinter): Promise<string> {
+		await super.open(printer);
+		this.contents = this.targets.map(() => '');
+		await this.forward(target => target.open({ ...printer, target: target }));
+		if (this.targets.some(target => this.targets[0] && !shareLayout(this.targets[0], target))) {
+			throw new Error('Targets do not share the layout');
+		}
+		return '';
+	}
+
+	// finish printing:
+	override async close(): Promise<string> {
+		return await this.forward(target => target.close());
+	}
+
+	// set print area:
+	override async area(left: number, width: number, right: number): Promise<string> {
+		return await this.forward(target => target.area(left, width, right));
+	}
+
+	// set line alignment:
+	override async align(align: number): Promise<string> {
+		return await this.forward(target => target.align(align));
+	}
+
+	// set absolute print position:
+	override async absolute(position: number): Promise<string> {
+		return await this.forward(target => target.absolute(position));
+	}
+
+	// set relative print position:
+	override async relative(position: number): Promise<string> {
+		return await this.forward(target => target.relative(position));
+	}
+
+	// set column:
+	override async column(index: number, start: number, width: number, align: number): Promise<string> {
+		return await this.forward(target => target.column(index, start, width, align));
+	}
+
+	// print horizontal rule:
+	override async hr(width: number): Promise<string> {
+		return await this.forward(target => target.hr(width));
+	}
+
+	// print vertical rules:
+	override async vr(widths: number[], height: number): Promise<string> {
+		return await this.forward(target => target.vr(widths, height));
+	}
+
+	// start rules:
+	override async vrstart(widths: number[]): Promise<string> {
+		return await this.forward(target => target.vrstart(widths));
+	}
+
+	// stop rules:
+	override async vrstop(widths: number[]): Promise<string> {
+		return await this.forward(target => target.vrstop(widths));
+	}
+
+	// print vertical and horizontal rules:
+	override async vrhr(widths1: number[], widths2: number[], dl: number, dr: number): Promise<string> {
+		return await this.forward(target => target.vrhr(widths1, widths2, dl, dr));
+	}
+
+	// set line spacing and feed new line:
+	override async vrlf(vr: boolean): Promise<string> {
+		return await this.forward(target => target.vrlf(vr));
+	}
+
+	// cut paper:
+	override async cut(): Promise<string> {
+		return await this.forward(target => target.cut());
+	}
+
+	// underline text:
+	override async ul(): Promise<string> {
+		return await this.forward(target => target.ul());
+	}
+
+	// emphasize text:
+	override async em(): Promise<string> {
+		return await this.forward(target => target.em());
+	}
+
+	// invert text:
+	override async iv(): Promise<string> {
+		return await this.forward(target => target.iv());
+	}
+
+	// scale up text:
+	override async wh(wh: number): Promise<string> {
+		return await this.forward(target => target.wh(wh));
+	}
+
+	// cancel text decoration:
+	override async normal(): Promise<string> {
+		return await this.forward(target => target.normal());
+	}
+
+	// print text:
+	override async text(text: string, encoding: Encoding): Promise<string> {
+		return await this.forward(target => target.text(text, encoding));
+	}
+
+	// feed new line:
+	override async lf(): Promise<string> {
+		return await this.forward(target => target.lf());
+	}
+
+	// insert commands:
+	override async command(command: string): Promise<string> {
+		return await this.forward(target => target.command(command));
+	}
+
+	// print image:
+	override async image(image: string): Promise<string> {
+		return await this.forward(target => target.image(image));
+	}
+
+	// print QR Code:
+	override async qrcode(symbol: QRCode, encoding: Encoding): Promise<string> {
+		return await this.forward(target => target.qrcode(symbol, encoding));
+	}
+
+	// print barcode:
+	override async barcode(symbol: Barcode, encoding: Encoding): Promise<string> {
+		return await this.forward(target => target.barcode(symbol, encoding));
+	}
+
+	override calculatedWidth(): number {
+		return this.targets[0]?.calculatedWidth() ?? 0;
+	}
+
+	override calculatedHeight(): number {
+		return this.targets[0]?.calculatedHeight() ?? 0;
+	}
+
+	override printable(c: string): boolean {
+		return this.targets.every(target => target.printable(c));
+	}
+
+	override barcodeFits(symbol: Barcode, width: number): boolean {
+		return this.targets.every(target => target.barcodeFits(symbol, width));
+	}
+
+	/**
+	 * Convert the output of a target to bytes.
+	 * @param {string} content output of the target in contents
+	 * @param {number} index index of the target
+	 * @returns {Uint8Array} content bytes of the target
+	 */
+	override contentBytes(content: string, index: number = 0): Uint8Array {
+		const target = this.targets[index];
+		if (!target) {
+			throw new Error(`No target at index ${index}`);
+		}
+		return target.contentBytes(content);
+	}
+}
+
+/**
+ * Check if two targets lay out text the same way.
+ * @param a target
+ * @param b target
+ * @returns true if characters per line, text measurement, and glyphs (for diagnostics) are the same
+ */
+export function shareLayout(a: BaseTargetInterface, b: BaseTargetInterface): boolean {
+	return a.cpl === b.cpl && shareMeasurement(a, b);
+}
+
+/**
+ * Check if two targets measure text and barcodes the same way.
+ * @param a target
+ * @param b target
+ * @returns true if text measurement, glyphs, and barcode widths are the same
+ */
+function shareMeasurement(a: BaseTargetInterface, b: BaseTargetInterface): boolean {
+	return a.measureText === b.measureText && a.arrayFrom === b.arrayFrom && a.printable === b.printable && a.barcodeFits === b.barcodeFits;
+}
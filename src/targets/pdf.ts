@@ -0,0 +1,451 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import { BaseTarget } from './base.ts';
+import type { Encoding, ParsedPrinter, QRCode, Barcode } from '../types.ts';
+import { generate as generateBarcode, type BarcodeSymbol } from '../barcode.ts';
+import { decodePng, grayscale, qrcodeImage } from '../image.ts';
+import { decodeBase64 } from '@levischuck/tiny-encodings';
+
+// text waiting for the line height
+type PdfText = {
+	x: number; // unit: dots
+	chars: string[];
+	widths: number[]; // unit: characters
+	scale: number;
+	height: number;
+	ul: boolean;
+	em: boolean;
+	iv: boolean;
+};
+
+// page of the document
+type PdfPage = {
+	content: string;
+	height: number;
+};
+
+// image XObject of the document
+type PdfImage = {
+	width: number;
+	height: number;
+	data: Uint8Array; // deflated 8-bit grayscale
+};
+
+// format number for content streams
+const n = (v: number): string => String(Math.round(v * 100) / 100);
+
+// convert byte array to a string (one character per byte)
+const bytes = (data: Uint8Array): string => {
+	let r = '';
+	for (let i = 0; i < data.length; i += 4096) {
+		r += String.fromCharCode(...data.subarray(i, i + 4096));
+	}
+	return r;
+};
+
+/**
+ * Deflate data for FlateDecode streams.
+ * @param data uncompressed data
+ * @returns zlib stream
+ */
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+	const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// characters of WinAnsiEncoding other than ISO-8859-1
+const winansi: Record<string, number> = {
+	'€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e,
+	'‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f
+};
+
+// convert character to a literal string of WinAnsiEncoding, other characters are replaced with '?'
+const literal = (c: string): string => {
+	const u = c.codePointAt(0) ?? 0x3f;
+	const b = u >= 0x20 && u <= 0x7e || u >= 0xa0 && u <= 0xff ? u : winansi[c] ?? 0x3f;
+	return /[()\\]/.test(c) ? '\\' + c : String.fromCharCode(b);
+};
+
+// convert path data of the SVG target to path construction operators
+const path = (d: string, x: number, y: number): string => {
+	let r = '', px = x, py = y;
+	for (const [, c, a = ''] of d.matchAll(/([Mmhvq])([^Mmhvq]*)/g)) {
+		const [a0 = 0, a1 = 0, a2 = 0, a3 = 0] = a.split(',').map(Number);
+		switch (c) {
+			case 'M':
+				px = x + a0;
+				py = y + a1;
+				r += `${n(px)} ${n(py)} m `;
+				break;
+			case 'm':
+				px += a0;
+				py += a1;
+				r += `${n(px)} ${n(py)} m `;
+				break;
+			case 'h':
+				px += a0;
+				r += `${n(px)} ${n(py)} l `;
+				break;
+			case 'v':
+				py += a0;
+				r += `${n(px)} ${n(py)} l `;
+				break;
+			case 'q':
+				// quadratic curve as cubic curve
+				r += `${n(px + a0 * 2 / 3)} ${n(py + a1 * 2 / 3)} ${n(px + a2 + (a0 - a2) * 2 / 3)} ${n(py + a3 + (a1 - a3) * 2 / 3)} ${n(px + a2)} ${n(py + a3)} c `;
+				px += a2;
+				py += a3;
+				break;
+			default:
+				break;
+		}
+	}
+	return r + 'S\n';
+};
+
+/**
+ * PDF target class for ReceiptLine commands.
+ * The receipt is a page as large as the SVG image, with searchable text in the Courier standard font,
+ * vector rules, barcodes, and QR Codes, and embedded images.
+ * Each character of the output is one byte of the PDF file.
+ */
+export class PdfTarget extends BaseTarget {
+	charWidth: number = 12;
+	spacing: boolean = false;
+	pdfWidth: number = 576;
+	pdfHeight: number = 0;
+	pdfContent: string = '';
+	pages: PdfPage[] = [];
+	images: PdfImage[] = [];
+	lineMargin: number = 0;
+	lineAlign: number = 0;
+	lineWidth: number = 48;
+	lineHeight: number = 1;
+	lineText: PdfText[] = [];
+	textPosition: number = 0;
+	textScale: number = 1;
+	textDecoration = { ul: false, em: false, iv: false, height: 1 };
+	feedMinimum: number = 24;
+	// start a new page at each paper cut
+	pageBreak: boolean = false;
+
+	setPageBreak(pageBreak: boolean): void {
+		this.pageBreak = pageBreak;
+	}
+
+	// start printing:
+	override async open(printer: ParsedPrinter): Promise<string> {
+		await super.open(printer);
+		this.charWidth = printer.charWidth;
+		this.spacing = printer.spacing;
+		this.pdfWidth = this.cpl * printer.charWidth;
+		this.pdfHeight = 0;
+		this.pdfContent = '';
+		this.pages = [];
+		this.images = [];
+		this.lineMargin = 0;
+		this.lineAlign = 0;
+		this.lineWidth = this.cpl;
+		this.lineHeight = 1;
+		this.lineText = [];
+		this.textPosition = 0;
+		await this.normal();
+		this.feedMinimum = this.charWidth * (this.spacing ? 2.5 : 2);
+		return '';
+	}
+
+	// finish printing:
+	override async close(): Promise<string> {
+		const last = this.pages[this.pages.length - 1];
+		if (!last || this.pdfContent.length > 0) {
+			this.pages.push({ content: this.pdfContent, height: this.pdfHeight });
+		}
+		else {
+			// nothing is printed after the last paper cut
+			this.pdfHeight = last.height;
+		}
+		// catalog, page tree, font, images, then contents and page of each page
+		const objects: string[] = ['<< /Type /Catalog /Pages 2 0 R >>', '', '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>'];
+		const xobject = this.images.map((img, i) => {
+			objects.push(`<< /Type /XObject /Subtype /Image /Width ${img.width} /Height ${img.height} /ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode /Length ${img.data.length} >>\nstream\n${bytes(img.data)}\nendstream`);
+			return `/Im${i} ${objects.length} 0 R`;
+		}).join(' ');
+		const resources = `<< /Font << /F1 3 0 R >> /XObject << ${xobject} >> >>`;
+		const kids = this.pages.map(page => {
+			const height = Math.max(Math.ceil(page.height), 1);
+			// top-down coordinates like the SVG target
+			const content = `1 0 0 -1 0 ${height} cm\n${page.content}`;
+			objects.push(`<< /Length ${content.length} >>\nstream\n${content}endstream`);
+			objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.pdfWidth} ${height}] /Resources ${resources} /Contents ${objects.length} 0 R >>`);
+			return `${objects.length} 0 R`;
+		});
+		objects[1] = `<< /Type /Pages /Kids [${kids.join(' ')}] /Count ${kids.length} >>`;
+		let r = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+		const offsets = objects.map((obj, i) => {
+			const offset = r.length;
+			r += `${i + 1} 0 obj\n${obj}\nendobj\n`;
+			return offset;
+		});
+		const xref = r.length;
+		r += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` + offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+		r += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+		return r;
+	}
+
+	// horizontal position of aligned content:
+	protected x(width: number): number {
+		return Math.floor(this.lineMargin * this.charWidth + (this.lineWidth * this.charWidth - width) * this.lineAlign / 2);
+	}
+
+	// set print area:
+	override async area(left: number, width: number, right: number): Promise<string> {
+		this.lineMargin = left;
+		this.lineWidth = width;
+		return '';
+	}
+
+	// set line alignment:
+	override async align(align: number): Promise<string> {
+		this.lineAlign = align;
+		return '';
+	}
+
+	// set absolute print position:
+	override async absolute(position: number): Promise<string> {
+		this.textPosition = position;
+		return '';
+	}
+
+	// set relative print position:
+	override async relative(position: number): Promise<string> {
+		this.textPosition += position;
+		return '';
+	}
+
+	// print horizontal rule:
+	override async hr(width: number): Promise<string> {
+		const w = this.charWidth;
+		this.pdfContent += '2 w ' + path(`M0,${w}h${w * width}`, this.lineMargin * w, this.pdfHeight);
+		return '';
+	}
+
+	// print vertical rules:
+	override async vr(widths: number[], height: number): Promise<string> {
+		const w = this.charWidth, u = w / 2, v = (w + w) * height;
+		const d = widths.reduce((a, width) => a + `m${w * width + w},${-v}v${v}`, `M${u},0v${v}`);
+		this.pdfContent += '2 w ' + path(d, this.lineMargin * w, this.pdfHeight);
+		return '';
+	}
+
+	// start rules:
+	override async vrstart(widths: number[]): Promise<string> {
+		const w = this.charWidth, u = w / 2;
+		const d = widths.reduce((a, width) => a + `h${w * width}h${u}v${w}m0,${-w}h${u}`, `M${u},${w + w}v${-u}q0,${-u},${u},${-u}`).replace(/h\d+v\d+m0,-\d+h\d+$/, `q${u},0,${u},${u}v${u}`);
+		this.pdfContent += '2 w ' + path(d, this.lineMargin * w, this.pdfHeight);
+		return '';
+	}
+
+	// stop rules:
+	override async vrstop(widths: number[]): Promise<string> {
+		const w = this.charWidth, u = w / 2;
+		const d = widths.reduce((a, width) => a + `h${w * width}h${u}v${-w}m0,${w}h${u}`, `M${u},0v${u}q0,${u},${u},${u}`).replace(/h\d+v-\d+m0,\d+h\d+$/, `q${u},0,${u},${-u}v${-u}`);
+		this.pdfContent += '2 w ' + path(d, this.lineMargin * w, this.pdfHeight);
+		return '';
+	}
+
+	// print vertical and horizontal rules:
+	override async vrhr(widths1: number[], widths2: number[], dl: number, dr: number): Promise<string> {
+		const w = this.charWidth, u = w / 2;
+		const d1 = widths1.reduce((a, width) => a + `h${w * width}h${u}v${-w}m0,${w}h${u}`, `M${u},0` + (dl > 0 ? `v${u}q0,${u},${u},${u}` : `v${w}h${u}`)).replace(/h\d+v-\d+m0,\d+h\d+$/, dr < 0 ? `q${u},0,${u},${-u}v${-u}` : `h${u}v${-w}`);
+		const d2 = widths2.reduce((a, width) => a + `h${w * width}h${u}v${w}m0,${-w}h${u}`, `M${u},${w + w}` + (dl < 0 ? `v${-u}q0,${-u},${u},${-u}` : `v${-w}h${u}`)).replace(/h\d+v\d+m0,-\d+h\d+$/, dr > 0 ? `q${u},0,${u},${u}v${u}` : `h${u}v${w}`);
+		this.pdfContent += '2 w ' + path(d1, (this.lineMargin + Math.max(-dl, 0)) * w, this.pdfHeight) +
+			path(d2, (this.lineMargin + Math.max(dl, 0)) * w, this.pdfHeight);
+		return '';
+	}
+
+	// set line spacing and feed new line:
+	override async vrlf(vr: boolean): Promise<string> {
+		this.feedMinimum = this.charWidth * (!vr && this.spacing ? 2.5 : 2);
+		return await this.lf();
+	}
+
+	// cut paper:
+	override async cut(): Promise<string> {
+		if (this.pageBreak) {
+			this.pages.push({ content: this.pdfContent, height: this.pdfHeight });
+			this.pdfContent = '';
+			this.pdfHeight = 0;
+			return '';
+		}
+		// dashed line
+		this.pdfContent += 'q [2] 0 d 2 w ' + path(`M0,${this.charWidth}h${this.pdfWidth}`, 0, this.pdfHeight) + 'Q\n';
+		return await this.lf();
+	}
+
+	// underline text:
+	override async ul(): Promise<string> {
+		this.textDecoration.ul = true;
+		return '';
+	}
+
+	// emphasize text:
+	override async em(): Promise<string> {
+		this.textDecoration.em = true;
+		return '';
+	}
+
+	// invert text:
+	override async iv(): Promise<string> {
+		this.textDecoration.iv = true;
+		return '';
+	}
+
+	// scale up text:
+	override async wh(wh: number): Promise<string> {
+		const w = wh < 3 ? (wh & 1) + 1 : wh - 1;
+		const h = wh < 3 ? (wh >> 1 & 1) + 1 : wh - 1;
+		this.textScale = w;
+		this.textDecoration.height = h;
+		this.lineHeight = Math.max(this.lineHeight, h);
+		return '';
+	}
+
+	// cancel text decoration:
+	override async normal(): Promise<string> {
+		this.textScale = 1;
+		this.textDecoration = { ul: false, em: false, iv: false, height: 1 };
+		return '';
+	}
+
+	// print text:
+	override async text(text: string, encoding: Encoding): Promise<string> {
+		const chars = this.arrayFrom(text, encoding);
+		const widths = chars.map(c => this.measureText(c, encoding));
+		this.lineText.push({ x: (this.lineMargin + this.textPosition) * this.charWidth, chars: chars, widths: widths, scale: this.textScale, ...this.textDecoration });
+		this.textPosition += this.measureText(text, encoding) * this.textScale;
+		return '';
+	}
+
+	// text object of characters on the character grid: BT Tf Tz Tr Tm TJ ET
+	protected textObject(text: PdfText, y: number): string {
+		const h = text.height * this.charWidth * 2;
+		// Courier advances 0.6 em
+		const size = this.charWidth * text.height / 0.6;
+		const tj = text.chars.reduce((a, c, i) => {
+			// move by the difference from one character width
+			const d = ((text.widths[i] ?? 1) - 1) * 600;
+			return a + literal(c) + (d !== 0 ? `)${n(-d)}(` : '');
+		}, '(') + ')';
+		const render = text.em ? `2 Tr ${n(text.height)} w ` : '';
+		return `BT /F1 ${n(size)} Tf ${n(100 * text.scale / text.height)} Tz ${render}1 0 0 -1 ${n(text.x)} ${n(y + h * 0.78)} Tm [${tj}] TJ ET\n`;
+	}
+
+	// feed new line:
+	override async lf(): Promise<string> {
+		const h = this.lineHeight * this.charWidth * 2;
+		// skip spaces without decoration
+		for (const t of this.lineText.filter(t => t.ul || t.iv || t.chars.some(c => c !== ' '))) {
+			// align text to the bottom of the line
+			const th = t.height * this.charWidth * 2;
+			const y = this.pdfHeight + h - th;
+			const w = t.widths.reduce((a, w) => a + w, 0) * t.scale * this.charWidth;
+			this.pdfContent += 'q ';
+			if (t.iv) {
+				this.pdfContent += `${n(t.x)} ${n(y)} ${n(w)} ${n(th)} re f 1 g 1 G `;
+			}
+			this.pdfContent += this.textObject(t, y);
+			if (t.ul) {
+				this.pdfContent += `${n(t.x)} ${n(y + th - 2)} ${n(w)} 2 re f `;
+			}
+			this.pdfContent += 'Q\n';
+		}
+		this.pdfHeight += Math.max(h, this.feedMinimum);
+		this.lineHeight = 1;
+		this.lineText = [];
+		this.textPosition = 0;
+		return '';
+	}
+
+	// insert commands:
+	override async command(command: string): Promise<string> {
+		return '';
+	}
+
+	// print image: Do
+	override async image(image: string): Promise<string> {
+		const img = await decodePng(decodeBase64(image));
+		this.images.push({ width: img.width, height: img.height, data: await deflate(grayscale(img)) });
+		const x = this.x(img.width);
+		// the first row of the image is at the top
+		this.pdfContent += `q ${img.width} 0 0 ${-img.height} ${x} ${n(this.pdfHeight + img.height)} cm /Im${this.images.length - 1} Do Q\n`;
+		this.pdfHeight += img.height;
+		return '';
+	}
+
+	// print QR Code:
+	override async qrcode(symbol: QRCode, encoding: Encoding): Promise<string> {
+		if (symbol.data.length === 0) {
+			return '';
+		}
+		// one dot per module
+		const img = await qrcodeImage({ ...symbol, cell: 1 });
+		const c = symbol.cell;
+		const x = this.x(img.width * c);
+		const y = this.pdfHeight;
+		const stride = img.width + 7 >> 3;
+		let r = '';
+		for (let j = 0; j < img.height; j++) {
+			for (let i = 0; i < img.width; i++) {
+				if ((img.data[j * stride + (i >> 3)] ?? 0) & 0x80 >> (i & 7)) {
+					r += `${n(x + i * c)} ${n(y + j * c)} ${c} ${c} re `;
+				}
+			}
+		}
+		this.pdfContent += r + 'f\n';
+		this.pdfHeight += img.height * c;
+		return '';
+	}
+
+	// print barcode:
+	override async barcode(symbol: Barcode, encoding: Encoding): Promise<string> {
+		const bar = generateBarcode(symbol as BarcodeSymbol);
+		const h = bar.height;
+		if (h === undefined || bar.length === undefined || !bar.widths) {
+			return '';
+		}
+		const x = this.x(bar.length);
+		const y = this.pdfHeight;
+		// odd elements are bars
+		let r = '';
+		bar.widths.reduce((p, w, i) => {
+			if (i % 2 === 1) {
+				r += `${n(x + p)} ${n(y)} ${w} ${h} re `;
+			}
+			return p + w;
+		}, 0);
+		this.pdfContent += r + 'f\n';
+		// draw human readable interpretation
+		if (bar.hri && bar.text) {
+			const chars = this.arrayFrom(bar.text, encoding);
+			const m = x + Math.floor((bar.length - chars.length * this.charWidth) / 2);
+			this.pdfContent += this.textObject({ x: m, chars: chars, widths: chars.map(() => 1), scale: 1, height: 1, ul: false, em: false, iv: false }, y + h + 2);
+		}
+		this.pdfHeight += h + (bar.hri ? this.charWidth * 2 + 2 : 0);
+		return '';
+	}
+
+	override calculatedWidth(): number {
+		return this.pdfWidth;
+	}
+
+	override calculatedHeight(): number {
+		return this.pdfHeight;
+	}
+
+	// convert output to bytes (one character per byte):
+	override contentBytes(content: string): Uint8Array {
+		return Uint8Array.from(content, c => c.charCodeAt(0) & 255);
+	}
+}
@@ -0,0 +1,53 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import { RasterTarget } from './raster.ts';
+import { grayscale, type DecodedImage } from '../image.ts';
+import { encodeBase64 } from '@levischuck/tiny-encodings';
+import { indexedPng } from '@levischuck/tiny-png';
+
+/**
+ * PNG target class for ReceiptLine commands.
+ * The receipt is drawn with a bundled bitmap font at `cpl * charWidth` dots wide.
+ * The content is the base64 encoded PNG file.
+ */
+export class PngTarget extends RasterTarget {
+	// output settings
+	grayscale: boolean = false;
+
+	setGrayscale(grayscale: boolean): void {
+		this.grayscale = grayscale;
+	}
+
+	// finish printing:
+	override async close(): Promise<string> {
+		const width = this.calculatedWidth();
+		const height = Math.max(Math.ceil(this.calculatedHeight()), 1);
+		this.allocate(height);
+		const pixels = this.pixels.slice(0, width * height);
+		let palette: number[][];
+		if (this.grayscale) {
+			palette = Array.from({ length: 256 }, (_, i) => [i, i, i]);
+		}
+		else {
+			pixels.forEach((v, i) => pixels[i] = v < 128 ? 1 : 0);
+			palette = [[255, 255, 255], [0, 0, 0]];
+		}
+		return encodeBase64(await indexedPng(pixels, width, height, palette));
+	}
+
+	// draw image with shades of gray:
+	protected override paint(img: DecodedImage, x: number, y: number): void {
+		if (!this.grayscale) {
+			super.paint(img, x, y);
+			return;
+		}
+		const gray = grayscale(img);
+		this.allocate(y + img.height);
+		for (let j = 0; j < img.height; j++) {
+			const row = gray.subarray(j * img.width, j * img.width + Math.min(img.width, this.rasterWidth - x));
+			this.pixels.set(row, (y + j) * this.rasterWidth + x);
+		}
+	}
+}
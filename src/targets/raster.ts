@@ -0,0 +1,413 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import { BaseTarget } from './base.ts';
+import type { Encoding, ParsedPrinter, QRCode, Barcode } from '../types.ts';
+import { generate as generateBarcode, type BarcodeSymbol } from '../barcode.ts';
+import { decodePng, monochrome, qrcodeImage, type DecodedImage, type MonochromeImage } from '../image.ts';
+import { glyph, FONT_WIDTH, FONT_HEIGHT } from '../font.ts';
+import { decodeBase64, encodeBase64 } from '@levischuck/tiny-encodings';
+
+// text waiting for the line height
+type RasterText = {
+	x: number; // unit: dots
+	chars: string[];
+	widths: number[]; // unit: dots
+	scale: number;
+	height: number;
+	ul: boolean;
+	em: boolean;
+	iv: boolean;
+};
+
+/**
+ * Raster target class for ReceiptLine commands.
+ * The receipt is drawn with a bundled bitmap font at `cpl * charWidth` dots wide, the same layout as the SVG target.
+ * The content is the base64 encoded 1 bit per pixel bitmap (see `bitmap()`).
+ */
+export class RasterTarget extends BaseTarget {
+	charWidth: number = 12;
+	spacing: boolean = false;
+	// canvas (luminance per pixel, 0: black, 255: white)
+	pixels: Uint8Array = new Uint8Array(0);
+	rasterWidth: number = 576;
+	rasterHeight: number = 0;
+	lineMargin: number = 0;
+	lineAlign: number = 0;
+	lineWidth: number = 48;
+	lineHeight: number = 1;
+	lineText: RasterText[] = [];
+	textPosition: number = 0;
+	textScale: number = 1;
+	textDecoration = { ul: false, em: false, iv: false, height: 1 };
+	feedMinimum: number = 24;
+	// glyphs of characters that the bundled font does not have
+	glyphs?: (c: string) => MonochromeImage | undefined;
+	// image conversion settings
+	gradient: boolean = true;
+	threshold: number = 128;
+
+	setGlyphs(glyphs: (c: string) => MonochromeImage | undefined): void {
+		this.glyphs = glyphs;
+	}
+
+	setGradient(gradient: boolean): void {
+		this.gradient = gradient;
+	}
+
+	setThreshold(threshold: number): void {
+		this.threshold = threshold;
+	}
+
+	// start printing:
+	override async open(printer: ParsedPrinter): Promise<string> {
+		await super.open(printer);
+		this.charWidth = printer.charWidth;
+		this.spacing = printer.spacing;
+		this.rasterWidth = this.cpl * printer.charWidth;
+		this.rasterHeight = 0;
+		this.pixels = new Uint8Array(0);
+		this.lineMargin = 0;
+		this.lineAlign = 0;
+		this.lineWidth = this.cpl;
+		this.lineHeight = 1;
+		this.lineText = [];
+		this.textPosition = 0;
+		await this.normal();
+		this.feedMinimum = this.charWidth * (this.spacing ? 2.5 : 2);
+		return '';
+	}
+
+	// finish printing:
+	override async close(): Promise<string> {
+		return encodeBase64(this.bitmap().data);
+	}
+
+	/**
+	 * Get the drawn receipt as a packed bitmap.
+	 * @returns 1 bit per pixel (1: black), MSB first, rows padded to whole bytes
+	 */
+	bitmap(): MonochromeImage {
+		const width = this.rasterWidth;
+		const height = Math.max(Math.ceil(this.rasterHeight), 1);
+		const stride = width + 7 >> 3;
+		const data = new Uint8Array(stride * height);
+		this.allocate(height);
+		for (let y = 0; y < height; y++) {
+			for (let x = 0; x < width; x++) {
+				if ((this.pixels[y * width + x] ?? 255) < 128) {
+					data[y * stride + (x >> 3)]! |= 0x80 >> (x & 7);
+				}
+			}
+		}
+		return { width: width, height: height, data: data };
+	}
+
+	// extend canvas to the height:
+	protected allocate(height: number): void {
+		const size = this.rasterWidth * Math.ceil(height);
+		if (size > this.pixels.length) {
+			const pixels = new Uint8Array(Math.max(size, this.pixels.length * 2)).fill(255);
+			pixels.set(this.pixels);
+			this.pixels = pixels;
+		}
+	}
+
+	// fill rectangle:
+	protected fill(x: number, y: number, w: number, h: number, v: number = 0): void {
+		const x0 = Math.max(Math.round(x), 0), x1 = Math.min(Math.round(x + w), this.rasterWidth);
+		const y0 = Math.max(Math.round(y), 0), y1 = Math.round(y + h);
+		this.allocate(y1);
+		for (let j = y0; j < y1; j++) {
+			this.pixels.fill(v, j * this.rasterWidth + x0, j * this.rasterWidth + Math.max(x1, x0));
+		}
+	}
+
+	// draw monochrome image:
+	protected draw(img: MonochromeImage, x: number, y: number): void {
+		const stride = img.width + 7 >> 3;
+		this.allocate(y + img.height);
+		for (let j = 0; j < img.height; j++) {
+			for (let i = 0; i < img.width && x + i < this.rasterWidth; i++) {
+				if ((img.data[j * stride + (i >> 3)] ?? 0) & 0x80 >> (i & 7)) {
+					this.pixels[(y + j) * this.rasterWidth + x + i] = 0;
+				}
+			}
+		}
+	}
+
+	// characters of the bundled font or supplied glyphs:
+	override printable(c: string): boolean {
+		return !!glyph(c) || !!this.glyphs?.(c);
+	}
+
+	// draw character in the cell:
+	protected char(c: string, x: number, y: number, w: number, h: number, scale: number, height: number, em: boolean, v: number): void {
+		const img = glyph(c) ? undefined : this.glyphs?.(c);
+		if (img) {
+			// stretch the glyph to the cell
+			const stride = img.width + 7 >> 3;
+			for (let j = 0; j < h; j++) {
+				const sy = Math.floor(j * img.height / h);
+				for (let i = 0; i < w; i++) {
+					const sx = Math.floor(i * img.width / w);
+					if ((img.data[sy * stride + (sx >> 3)] ?? 0) & 0x80 >> (sx & 7)) {
+						this.fill(x + i, y + j, 1 + Number(em), 1, v);
+					}
+				}
+			}
+			return;
+		}
+		const g = glyph(c) ?? glyph('?')!;
+		const sx = Math.max(Math.floor(this.charWidth / 6), 1) * scale;
+		const sy = Math.max(Math.floor(this.charWidth / 5), 1) * height;
+		const ox = x + Math.floor((w - FONT_WIDTH * sx) / 2);
+		const oy = y + Math.floor((h - FONT_HEIGHT * sy) / 2);
+		g.forEach((bits, i) => {
+			for (let j = 0; j < FONT_HEIGHT; j++) {
+				if (bits >> j & 1) {
+					// emphasized text is drawn one dot wider
+					this.fill(ox + i * sx, oy + j * sy, sx + Number(em), sy, v);
+				}
+			}
+		});
+	}
+
+	// horizontal position of aligned content:
+	protected x(width: number): number {
+		return Math.max(Math.floor(this.lineMargin * this.charWidth + (this.lineWidth * this.charWidth - width) * this.lineAlign / 2), 0);
+	}
+
+	// vertical line positions (unit: dots)
+	protected lines(widths: number[], offset: number = 0): number[] {
+		let p = this.lineMargin + offset;
+		return [p, ...widths.map(w => p += w + 1)].map(p => p * this.charWidth + this.charWidth / 2 - 1);
+	}
+
+	// set print area:
+	override async area(left: number, width: number, right: number): Promise<string> {
+		this.lineMargin = left;
+		this.lineWidth = width;
+		return '';
+	}
+
+	// set line alignment:
+	override async align(align: number): Promise<string> {
+		this.lineAlign = align;
+		return '';
+	}
+
+	// set absolute print position:
+	override async absolute(position: number): Promise<string> {
+		this.textPosition = position;
+		return '';
+	}
+
+	// set relative print position:
+	override async relative(position: number): Promise<string> {
+		this.textPosition += position;
+		return '';
+	}
+
+	// print horizontal rule:
+	override async hr(width: number): Promise<string> {
+		this.fill(this.lineMargin * this.charWidth, this.rasterHeight + this.charWidth - 1, width * this.charWidth, 2);
+		return '';
+	}
+
+	// print vertical rules:
+	override async vr(widths: number[], height: number): Promise<string> {
+		const v = this.charWidth * 2 * height;
+		this.lines(widths).forEach(x => this.fill(x, this.rasterHeight, 2, v));
+		return '';
+	}
+
+	// start rules:
+	override async vrstart(widths: number[]): Promise<string> {
+		const w = this.charWidth, y = this.rasterHeight;
+		const x = this.lines(widths);
+		this.fill(x[0] ?? 0, y + w - 1, (x[x.length - 1] ?? 0) - (x[0] ?? 0) + 2, 2);
+		x.forEach(p => this.fill(p, y + w - 1, 2, w + 1));
+		return '';
+	}
+
+	// stop rules:
+	override async vrstop(widths: number[]): Promise<string> {
+		const w = this.charWidth, y = this.rasterHeight;
+		const x = this.lines(widths);
+		x.forEach(p => this.fill(p, y, 2, w + 1));
+		this.fill(x[0] ?? 0, y + w - 1, (x[x.length - 1] ?? 0) - (x[0] ?? 0) + 2, 2);
+		return '';
+	}
+
+	// print vertical and horizontal rules:
+	override async vrhr(widths1: number[], widths2: number[], dl: number, dr: number): Promise<string> {
+		const w = this.charWidth, y = this.rasterHeight;
+		const x1 = this.lines(widths1, Math.max(-dl, 0));
+		const x2 = this.lines(widths2, Math.max(dl, 0));
+		const l = Math.min(x1[0] ?? 0, x2[0] ?? 0);
+		const r = Math.max(x1[x1.length - 1] ?? 0, x2[x2.length - 1] ?? 0);
+		x1.forEach(p => this.fill(p, y, 2, w + 1));
+		this.fill(l, y + w - 1, r - l + 2, 2);
+		x2.forEach(p => this.fill(p, y + w - 1, 2, w + 1));
+		return '';
+	}
+
+	// set line spacing and feed new line:
+	override async vrlf(vr: boolean): Promise<string> {
+		this.feedMinimum = this.charWidth * (!vr && this.spacing ? 2.5 : 2);
+		return await this.lf();
+	}
+
+	// cut paper:
+	override async cut(): Promise<string> {
+		// dashed line
+		for (let x = 0; x < this.rasterWidth; x += 4) {
+			this.fill(x, this.rasterHeight + this.charWidth - 1, 2, 2);
+		}
+		return await this.lf();
+	}
+
+	// underline text:
+	override async ul(): Promise<string> {
+		this.textDecoration.ul = true;
+		return '';
+	}
+
+	// emphasize text:
+	override async em(): Promise<string> {
+		this.textDecoration.em = true;
+		return '';
+	}
+
+	// invert text:
+	override async iv(): Promise<string> {
+		this.textDecoration.iv = true;
+		return '';
+	}
+
+	// scale up text:
+	override async wh(wh: number): Promise<string> {
+		const w = wh < 3 ? (wh & 1) + 1 : wh - 1;
+		const h = wh < 3 ? (wh >> 1 & 1) + 1 : wh - 1;
+		this.textScale = w;
+		this.textDecoration.height = h;
+		this.lineHeight = Math.max(this.lineHeight, h);
+		return '';
+	}
+
+	// cancel text decoration:
+	override async normal(): Promise<string> {
+		this.textScale = 1;
+		this.textDecoration = { ul: false, em: false, iv: false, height: 1 };
+		return '';
+	}
+
+	// print text:
+	override async text(text: string, encoding: Encoding): Promise<string> {
+		const chars = this.arrayFrom(text, encoding);
+		const widths = chars.map(c => this.measureText(c, encoding) * this.textScale * this.charWidth);
+		this.lineText.push({ x: (this.lineMargin + this.textPosition) * this.charWidth, chars: chars, widths: widths, scale: this.textScale, ...this.textDecoration });
+		this.textPosition += this.measureText(text, encoding) * this.textScale;
+		return '';
+	}
+
+	// feed new line:
+	override async lf(): Promise<string> {
+		const h = this.lineHeight * this.charWidth * 2;
+		for (const t of this.lineText) {
+			// align text to the bottom of the line
+			const th = t.height * this.charWidth * 2;
+			const y = this.rasterHeight + h - th;
+			let x = t.x;
+			t.chars.forEach((c, i) => {
+				const w = t.widths[i] ?? 0;
+				if (t.iv) {
+					this.fill(x, y, w, th);
+				}
+				if (c !== ' ') {
+					this.char(c, x, y, w, th, t.scale, t.height, t.em, t.iv ? 255 : 0);
+				}
+				if (t.ul) {
+					this.fill(x, y + th - 2, w, 2);
+				}
+				x += w;
+			});
+		}
+		this.rasterHeight += Math.max(h, this.feedMinimum);
+		this.allocate(this.rasterHeight);
+		this.lineHeight = 1;
+		this.lineText = [];
+		this.textPosition = 0;
+		return '';
+	}
+
+	// insert commands:
+	override async command(command: string): Promise<string> {
+		return '';
+	}
+
+	// print image:
+	override async image(image: string): Promise<string> {
+		const img = await decodePng(decodeBase64(image));
+		this.paint(img, this.x(img.width), Math.round(this.rasterHeight));
+		this.rasterHeight += img.height;
+		return '';
+	}
+
+	// draw image with error diffusion or threshold:
+	protected paint(img: DecodedImage, x: number, y: number): void {
+		this.draw(monochrome(img, this.gradient, this.threshold), x, y);
+	}
+
+	// print QR Code:
+	override async qrcode(symbol: QRCode, encoding: Encoding): Promise<string> {
+		if (symbol.data.length === 0) {
+			return '';
+		}
+		const img = await qrcodeImage(symbol);
+		this.draw(img, this.x(img.width), Math.round(this.rasterHeight));
+		this.rasterHeight += img.height;
+		return '';
+	}
+
+	// print barcode:
+	override async barcode(symbol: Barcode, encoding: Encoding): Promise<string> {
+		const bar = generateBarcode(symbol as BarcodeSymbol);
+		const h = bar.height;
+		if (h === undefined || bar.length === undefined || !bar.widths) {
+			return '';
+		}
+		const x = this.x(bar.length);
+		const y = Math.round(this.rasterHeight);
+		// odd elements are bars
+		bar.widths.reduce((p, w, i) => {
+			if (i % 2 === 1) {
+				this.fill(x + p, y, w, h);
+			}
+			return p + w;
+		}, 0);
+		// draw human readable interpretation
+		if (bar.hri && bar.text) {
+			const chars = this.arrayFrom(bar.text, encoding);
+			const m = x + Math.floor((bar.length - chars.length * this.charWidth) / 2);
+			chars.forEach((c, i) => this.char(c, m + i * this.charWidth, y + h + 2, this.charWidth, this.charWidth * 2, 1, 1, false, 0));
+		}
+		this.rasterHeight += h + (bar.hri ? this.charWidth * 2 + 2 : 0);
+		return '';
+	}
+
+	override calculatedWidth(): number {
+		return this.rasterWidth;
+	}
+
+	override calculatedHeight(): number {
+		return this.rasterHeight;
+	}
+
+	// convert output to bytes (base64 decoded):
+	override contentBytes(content: string): Uint8Array {
+		return decodeBase64(content);
+	}
+}
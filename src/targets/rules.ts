@@ -0,0 +1,79 @@
+/*
+Copyright 2019 Open Foodservice System Consortium
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+	http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+// Ruled lines drawn with box drawing characters, one character per column.
+// Character-based targets translate these characters to their own code pages.
+
+// ruled line composition (start rules over stop rules)
+const vrtable: Record<string, Record<string, string>> = {
+	' ': { ' ': ' ', '┴': '┴', '─': '─', '└': '└', '┘': '┘', '╰': '─', '╯': '─' },
+	'┬': { ' ': '┬', '┴': '┼', '─': '┬', '└': '├', '┘': '┤', '╰': '┬', '╯': '┬' },
+	'─': { ' ': '─', '┴': '┴', '─': '─', '└': '└', '┘': '┘', '╰': '─', '╯': '─' },
+	'┌': { ' ': '┌', '┴': '├', '─': '┌', '└': '├', '┘': '┼', '╰': '┌', '╯': '┌' },
+	'┐': { ' ': '┐', '┴': '┤', '─': '┐', '└': '┼', '┘': '┤', '╰': '┐', '╯': '┐' },
+	'╭': { ' ': '╭', '┴': '┴', '─': '─', '└': '└', '┘': '┘', '╰': '─', '╯': '─' },
+	'╮': { ' ': '╮', '┴': '┴', '─': '─', '└': '└', '┘': '┘', '╰': '─', '╯': '─' }
+};
+
+/**
+ * Horizontal rule.
+ * @param width line width (unit: characters)
+ * @returns box drawing characters
+ */
+export function hrRule(width: number): string {
+	return '─'.repeat(width);
+}
+
+/**
+ * Vertical rules.
+ * @param widths vertical line spacing
+ * @returns box drawing characters
+ */
+export function vrRule(widths: number[]): string {
+	return widths.reduce((a, w) => a + ' '.repeat(w) + '│', '│');
+}
+
+/**
+ * Start rules.
+ * @param widths vertical line spacing
+ * @returns box drawing characters
+ */
+export function vrstartRule(widths: number[]): string {
+	return widths.reduce((a, w) => a + '─'.repeat(w) + '┬', '╭').slice(0, -1) + '╮';
+}
+
+/**
+ * Stop rules.
+ * @param widths vertical line spacing
+ * @returns box drawing characters
+ */
+export function vrstopRule(widths: number[]): string {
+	return widths.reduce((a, w) => a + '─'.repeat(w) + '┴', '╰').slice(0, -1) + '╯';
+}
+
+/**
+ * Vertical and horizontal rules.
+ * @param widths1 vertical line spacing (stop)
+ * @param widths2 vertical line spacing (start)
+ * @param dl difference in left position
+ * @param dr difference in right position
+ * @returns box drawing characters
+ */
+export function vrhrRule(widths1: number[], widths2: number[], dl: number, dr: number): string {
+	const r1 = ' '.repeat(Math.max(-dl, 0)) + widths1.reduce((a, w) => a + '─'.repeat(w) + '┴', dl > 0 ? '╰' : '└').slice(0, -1) + (dr < 0 ? '╯' : '┘') + ' '.repeat(Math.max(dr, 0));
+	const r2 = ' '.repeat(Math.max(dl, 0)) + widths2.reduce((a, w) => a + '─'.repeat(w) + '┬', dl < 0 ? '╭' : '┌').slice(0, -1) + (dr > 0 ? '╮' : '┐') + ' '.repeat(Math.max(-dr, 0));
+	return r2.split('').reduce((a, c, i) => a + (vrtable[c]?.[r1[i] ?? ' '] ?? c), '');
+}
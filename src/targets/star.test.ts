@@ -0,0 +1,23 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import { describe, expect, test } from 'bun:test';
+import { transform } from '../index.ts';
+
+describe('StarTarget', () => {
+	test('prints text, rules, and barcodes with Star Mode commands', async () => {
+		const doc = '{w:4,*;b:line}\n|"A"|^^B^^|\n{w:auto;b:space}\n_x_ `y` ^^^z\n{c:123;o:code128,2,40,hri}\n{x:\\x1bp\\x00}\n---\n=';
+		const result = await transform(doc, { cpl: 16, target: 'star' });
+		expect(result.content).toBe(
+			'\x1b@\x1b\x1ea\x00\x1b\x1eF\x00\x1b \x00\x1bs\x00\x00\x1b0\x1b\x1dt\x01\x1b-\x00\x1bF\x1b5\x1bi\x00\x00\x1bl\x00\x1bQ\x10\x1bl\x00\x1bQ\x10\x1b\x1da\x00\x1b\x1dt\x01\xda\xc4\xc4\xc4\xc4\xc2\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xbf\x1b0\n' +
+			'\x1b-\x00\x1bF\x1b5\x1bi\x00\x00\x1bl\x00\x1bQ\x10\x1bl\x00\x1bQ\x10\x1b\x1da\x00\x1b-\x00\x1bF\x1b5\x1bi\x00\x00\x1b\x1dA\x00\x00\x1bi\x01\x00\x1b\x1dt\x01\xb3    \xb3         \xb3\x1b\x1dA\x0c\x00\x1b\x1dR\x12\x00\x1b-\x00\x1bF\x1b5\x1bi\x00\x00\x1bEA\x1b\x1dAH\x00\x1b\x1dR0\x00\x1b-\x00\x1bF\x1b5\x1bi\x00\x00\x1bi\x01\x00B\n' +
+			'\x1b-\x00\x1bF\x1b5\x1bi\x00\x00\x1bl\x00\x1bQ\x10\x1bl\x00\x1bQ\x10\x1b\x1da\x00\x1b\x1dt\x01\xc0\xc4\xc4\xc4\xc4\xc1\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xd9\x1b0\n' +
+			'\x1b-\x00\x1bF\x1b5\x1bi\x00\x00\x1bl\x00\x1bQ\x10\x1bl\x00\x1bQ\x10\x1b\x1da\x00\x1b\x1dA\x00\x00\x1b\x1dR<\x00\x1b-\x00\x1bF\x1b5\x1bi\x00\x00\x1b-\x01x\x1b-\x00\x1bF\x1b5\x1bi\x00\x00 \x1b-\x00\x1bF\x1b5\x1bi\x00\x00\x1b4y\x1b-\x00\x1bF\x1b5\x1bi\x00\x00 \x1b-\x00\x1bF\x1b5\x1bi\x00\x00\x1bi\x01\x01z\n' +
+			'\x1b-\x00\x1bF\x1b5\x1bi\x00\x00\x1bl\x00\x1bQ\x10\x1bl\x00\x1bQ\x10\x1b\x1da\x01\x1bb\x0621(123\x1e\x1b-\x00\x1bF\x1b5\x1bi\x00\x00\x1bl\x00\x1bQ\x10\x1bl\x00\x1bQ\x10\x1b\x1da\x01\x1bp\x00\x1b-\x00\x1bF\x1b5\x1bi\x00\x00\x1bl\x00\x1bQ\x10\x1bl\x00\x1bQ\x10\x1b\x1da\x00\x1b\x1dt\x01\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\n' +
+			'\x1bd\x03'
+		);
+		expect(result.width).toBe(192);
+		expect(result.height).toBe(232);
+	});
+});
@@ -0,0 +1,334 @@
+/*
+Copyright 2019 Open Foodservice System Consortium
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+	http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { BaseTarget } from './base.ts';
+import type { Encoding, ParsedPrinter, QRCode, Barcode } from '../types.ts';
+import { generate as generateBarcode, type BarcodeSymbol } from '../barcode.ts';
+import { encode, segment, type Fallback } from '../encoding.ts';
+import { decodePng, monochrome, barcodeImage, qrcodeImage, type MonochromeImage } from '../image.ts';
+import { hrRule, vrRule, vrstartRule, vrstopRule, vrhrRule } from './rules.ts';
+import { decodeBase64 } from '@levischuck/tiny-encodings';
+
+// convert byte values to a command string (one character per byte)
+const $ = (...bytes: number[]): string => String.fromCharCode(...bytes.map(b => b & 255));
+
+// convert byte array to a command string
+const bytes = (data: Uint8Array): string => {
+	let r = '';
+	for (let i = 0; i < data.length; i += 4096) {
+		r += String.fromCharCode(...data.subarray(i, i + 4096));
+	}
+	return r;
+};
+
+/**
+ * Star Mode target class for ReceiptLine commands (Star TSP100, TSP650, and compatible printers).
+ * Each character of the output is one byte to send to the printer.
+ */
+export class StarTarget extends BaseTarget {
+	charWidth: number = 12;
+	margin: number = 0;
+	spacing: boolean = false;
+	// image conversion settings
+	gradient: boolean = true;
+	threshold: number = 128;
+	// replacement of characters that the code page cannot represent
+	fallback: Fallback = '?';
+	// selected code page (rules select code page 437)
+	page: Encoding = 'cp437';
+	// maximum image band height (unit: dots)
+	split: number = 512;
+	// print symbols with printer commands (true) or as raster images (false)
+	nativeQrcode: boolean = true;
+	nativeBarcode: boolean = true;
+	// fed paper (unit: dots)
+	starHeight: number = 0;
+	// height of the current line (unit: characters) and minimum line feed (unit: dots)
+	lineHeight: number = 1;
+	feedMinimum: number = 24;
+
+	setFallback(fallback: Fallback): void {
+		this.fallback = fallback;
+	}
+
+	setGradient(gradient: boolean): void {
+		this.gradient = gradient;
+	}
+
+	setThreshold(threshold: number): void {
+		this.threshold = threshold;
+	}
+
+	setNativeQrcode(native: boolean): void {
+		this.nativeQrcode = native;
+	}
+
+	setNativeBarcode(native: boolean): void {
+		this.nativeBarcode = native;
+	}
+
+	// start printing: ESC @ ESC RS a n ESC RS F n ESC SP n ESC s n1 n2 (ESC z n) (ESC 0) ESC GS t n
+	override async open(printer: ParsedPrinter): Promise<string> {
+		await super.open(printer);
+		this.charWidth = printer.charWidth;
+		this.margin = printer.margin;
+		this.spacing = printer.spacing;
+		this.starHeight = 0;
+		this.lineHeight = 1;
+		this.feedMinimum = this.charWidth * (this.spacing ? 2.5 : 2);
+		return '\x1b@\x1b\x1ea\x00\x1b\x1eF\x00\x1b \x00\x1bs\x00\x00' + (this.spacing ? '\x1bz1' : '\x1b0') + this.codepage(printer.encoding);
+	}
+
+	// select character code table: ESC GS t n
+	protected codepage(encoding: Encoding): string {
+		// multilingual text starts with code page 437
+		this.page = encoding === 'multilingual' ? 'cp437' : encoding;
+		const table: Partial<Record<Encoding, number>> = {
+			cp437: 1, cp858: 4, cp852: 5, cp860: 6, cp863: 8, cp865: 9, cp866: 10, cp1252: 32, tis620: 97
+		};
+		return '\x1b\x1dt' + $(table[encoding] ?? 1);
+	}
+
+	// finish printing:
+	override async close(): Promise<string> {
+		return '';
+	}
+
+	// set print area: ESC l n ESC Q n
+	override async area(left: number, width: number, right: number): Promise<string> {
+		const m = this.margin + left;
+		return '\x1bl' + $(0) + '\x1bQ' + $(m + width + right) + '\x1bl' + $(m) + '\x1bQ' + $(m + width);
+	}
+
+	// set line alignment: ESC GS a n
+	override async align(align: number): Promise<string> {
+		return '\x1b\x1da' + $(align);
+	}
+
+	// set absolute print position: ESC GS A n1 n2
+	override async absolute(position: number): Promise<string> {
+		const p = Math.round(position * this.charWidth);
+		return '\x1b\x1dA' + $(p, p >> 8);
+	}
+
+	// set relative print position: ESC GS R n1 n2
+	override async relative(position: number): Promise<string> {
+		const p = Math.round(position * this.charWidth);
+		return '\x1b\x1dR' + $(p, p >> 8);
+	}
+
+	// print horizontal rule: ESC GS t n ...
+	override async hr(width: number): Promise<string> {
+		return this.rulepage() + this.rule(hrRule(width));
+	}
+
+	// print vertical rules: ESC i n1 n2 ESC GS t n ...
+	override async vr(widths: number[], height: number): Promise<string> {
+		this.lineHeight = Math.max(this.lineHeight, height);
+		return '\x1bi' + $(height - 1, 0) + this.rulepage() + this.rule(vrRule(widths));
+	}
+
+	// start rules: ESC GS t n ...
+	override async vrstart(widths: number[]): Promise<string> {
+		return this.rulepage() + this.rule(vrstartRule(widths));
+	}
+
+	// stop rules: ESC GS t n ...
+	override async vrstop(widths: number[]): Promise<string> {
+		return this.rulepage() + this.rule(vrstopRule(widths));
+	}
+
+	// print vertical and horizontal rules: ESC GS t n ...
+	override async vrhr(widths1: number[], widths2: number[], dl: number, dr: number): Promise<string> {
+		return this.rulepage() + this.rule(vrhrRule(widths1, widths2, dl, dr));
+	}
+
+	// select code page 437 of box drawing characters: ESC GS t n
+	protected rulepage(): string {
+		this.page = 'cp437';
+		return '\x1b\x1dt\x01';
+	}
+
+	// convert box drawing characters to code page 437:
+	protected rule(rule: string): string {
+		return rule.replace(/[^ ]/g, c => ruleChars[c] ?? ' ');
+	}
+
+	// set line spacing and feed new line: (ESC z n) (ESC 0)
+	override async vrlf(vr: boolean): Promise<string> {
+		this.feedMinimum = this.charWidth * (!vr && this.spacing ? 2.5 : 2);
+		return (!vr && this.spacing ? '\x1bz1' : '\x1b0') + await this.lf();
+	}
+
+	// cut paper: ESC d n
+	override async cut(): Promise<string> {
+		return '\x1bd\x03';
+	}
+
+	// underline text: ESC - n
+	override async ul(): Promise<string> {
+		return '\x1b-\x01';
+	}
+
+	// emphasize text: ESC E
+	override async em(): Promise<string> {
+		return '\x1bE';
+	}
+
+	// invert text: ESC 4
+	override async iv(): Promise<string> {
+		return '\x1b4';
+	}
+
+	// scale up text: ESC i n1 n2
+	override async wh(wh: number): Promise<string> {
+		this.lineHeight = Math.max(this.lineHeight, wh < 3 ? (wh >> 1 & 1) + 1 : wh - 1);
+		return '\x1bi' + (wh < 3 ? $(wh >> 1 & 1, wh & 1) : $(wh - 2, wh - 2));
+	}
+
+	// cancel text decoration: ESC - n ESC F ESC 5 ESC i n1 n2
+	override async normal(): Promise<string> {
+		return '\x1b-\x00\x1bF\x1b5\x1bi\x00\x00';
+	}
+
+	// print text:
+	override async text(text: string, encoding: Encoding): Promise<string> {
+		return this.encode(text, encoding);
+	}
+
+	// convert text to printer characters:
+	protected encode(text: string, encoding: Encoding): string {
+		if (encoding !== 'multilingual') {
+			// select the code page again after rules
+			return (this.page !== encoding ? this.codepage(encoding) : '') + encode(text, encoding, this.fallback);
+		}
+		// switch code pages within the text
+		return segment(text, undefined, this.page)
+			.map(s => (s.encoding !== this.page ? this.codepage(s.encoding) : '') + encode(s.text, s.encoding, this.fallback))
+			.join('');
+	}
+
+	// feed new line: LF
+	override async lf(): Promise<string> {
+		this.starHeight += Math.max(this.lineHeight * this.charWidth * 2, this.feedMinimum);
+		this.lineHeight = 1;
+		return '\n';
+	}
+
+	// insert commands:
+	override async command(command: string): Promise<string> {
+		return command;
+	}
+
+	// print image:
+	override async image(image: string): Promise<string> {
+		return this.raster(monochrome(await decodePng(decodeBase64(image)), this.gradient, this.threshold));
+	}
+
+	// print raster image: ESC GS S m xL xH yL yH n [d11 d12 ... d1k]
+	protected raster(img: MonochromeImage): string {
+		const stride = img.width + 7 >> 3;
+		let r = '';
+		for (let z = 0; z < img.height; z += this.split) {
+			const h = Math.min(this.split, img.height - z);
+			r += '\x1b\x1dS' + $(1, stride, stride >> 8, h, h >> 8, 0) + bytes(img.data.subarray(z * stride, (z + h) * stride));
+		}
+		this.starHeight += img.height;
+		return r;
+	}
+
+	// print QR Code: ESC GS y S 0 n ESC GS y S 1 n ESC GS y S 2 n ESC GS y D 1 m nL nH d1 d2 ... dk ESC GS y P
+	override async qrcode(symbol: QRCode, encoding: Encoding): Promise<string> {
+		if (!this.nativeQrcode) {
+			return this.raster(await qrcodeImage(symbol));
+		}
+		const d = bytes(new TextEncoder().encode(symbol.data));
+		if (d.length === 0 || d.length > 7089) {
+			return '';
+		}
+		// the printer selects the version, which is the same as the image without quiet zone
+		this.starHeight += (await qrcodeImage({ ...symbol, cell: 1, quietZone: false })).height * symbol.cell;
+		return '\x1b\x1dyS0\x02' +
+			'\x1b\x1dyS1' + $(qrlevel[symbol.level]) +
+			'\x1b\x1dyS2' + $(symbol.cell) +
+			'\x1b\x1dyD1\x00' + $(d.length, d.length >> 8) + d +
+			'\x1b\x1dyP';
+	}
+
+	// print barcode: ESC b n1 n2 n3 n4 d1 ... dk RS
+	override async barcode(symbol: Barcode, encoding: Encoding): Promise<string> {
+		// skip data that the symbology cannot represent
+		const bar = generateBarcode(symbol as BarcodeSymbol);
+		if (!bar.widths) {
+			return '';
+		}
+		const b = bartype[symbol.type] - Number(/upc|[ej]an/.test(symbol.type) && symbol.data.length < 9);
+		// UPC-E is printed as an image
+		if (!this.nativeBarcode || b === 0 || symbol.data.length > 255) {
+			const r = this.raster(barcodeImage(bar));
+			if (!bar.hri || !bar.text) {
+				return r;
+			}
+			// human readable interpretation on the next line
+			this.starHeight += Math.max(this.charWidth * 2, this.feedMinimum);
+			return r + bar.text.replace(/[^ -~]/g, ' ') + '\n';
+		}
+		let d = symbol.data;
+		switch (b) {
+			case 1:
+				d = d.slice(0, 11);
+				break;
+			case 2:
+				d = d.slice(0, 7);
+				break;
+			case 3:
+				d = d.slice(0, 12);
+				break;
+			default:
+				break;
+		}
+		const n = /code39|itf|codabar|nw7/.test(symbol.type) ? symbol.width + 50 : symbol.width + 47;
+		this.starHeight += symbol.height + (symbol.hri ? this.charWidth * 2 : 0);
+		return '\x1bb' + $(b, symbol.hri ? 50 : 49, n, symbol.height) + d + '\x1e';
+	}
+
+	override calculatedWidth(): number {
+		return this.cpl * this.charWidth;
+	}
+
+	override calculatedHeight(): number {
+		return this.starHeight;
+	}
+
+	// convert output to bytes (one character per byte):
+	override contentBytes(content: string): Uint8Array {
+		return Uint8Array.from(content, c => c.charCodeAt(0) & 255);
+	}
+}
+
+// box drawing characters (code page 437)
+const ruleChars: Record<string, string> = {
+	'┼': '\xc5', '┴': '\xc1', '┬': '\xc2', '┤': '\xb4', '├': '\xc3', '─': '\xc4', '│': '\xb3',
+	'┌': '\xda', '┐': '\xbf', '└': '\xc0', '┘': '\xd9', '╭': '\xda', '╮': '\xbf', '╰': '\xc0', '╯': '\xd9'
+};
+
+// QR Code error correction levels
+const qrlevel: Record<QRCode['level'], number> = { l: 0, m: 1, q: 2, h: 3 };
+
+// barcode types (ESC b n1), the previous number is the short form (UPC-E, EAN-8)
+const bartype: Record<Barcode['type'], number> = {
+	upc: 1, ean: 3, jan: 3, code39: 4, itf: 5, codabar: 8, nw7: 8, code93: 7, code128: 6
+};
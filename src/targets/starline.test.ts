@@ -0,0 +1,28 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import { describe, expect, test } from 'bun:test';
+import { transform } from '../index.ts';
+import { indexedPng } from '@levischuck/tiny-png';
+import { encodeBase64 } from '@levischuck/tiny-encodings';
+
+// 4 x 2 dots: ##.. / .##.
+const png = async (): Promise<string> => encodeBase64(await indexedPng(Uint8Array.from([1, 1, 0, 0, 0, 1, 1, 0]), 4, 2, [[255, 255, 255], [0, 0, 0]]));
+
+describe('StarLineTarget', () => {
+	test('composes lines on the character grid and prints images in 8-dot bands', async () => {
+		const doc = `{w:4,*;b:line}\n|"A"|^^B^^|\n{w:auto;b:space}\n_x_ \`y\` ^^^z\n{i:${await png()}}\n---\n=`;
+		const result = await transform(doc, { cpl: 16, target: 'starline' });
+		expect(result.content).toBe(
+			'\x1b@\x1b \x00\x1b0\x1b\x1dt\x01\x1bl\x00\x1bQ\x10\x1bl\x00\x1bQ\x10\x1b\x1da\x00\x1b0\x1b\x1dt\x01\x1b-\x00\x1bF\x1b5\x1bW\x00\x1bh\x00\xda\xc4\xc4\xc4\xc4\xc2\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xbf\x1b\x1dt\x01\x1b-\x00\x1bF\x1b5\x1bW\x00\x1bh\x00\n' +
+			'\x1bl\x00\x1bQ\x10\x1bl\x00\x1bQ\x10\x1b\x1da\x00\x1b\x1dt\x01\x1b-\x00\x1bF\x1b5\x1bW\x00\x1bh\x01\xb3 \x1b\x1dt\x01\x1b-\x00\x1bE\x1b5\x1bW\x00\x1bh\x00A\x1b-\x00\x1bF\x1b5\x1bW\x00\x1bh\x01  \x1b\x1dt\x01\x1b-\x00\x1bF\x1b5\x1bW\x00\x1bh\x01\xb3    \x1b\x1dt\x01\x1b-\x00\x1bF\x1b5\x1bW\x00\x1bh\x01B    \x1b\x1dt\x01\x1b-\x00\x1bF\x1b5\x1bW\x00\x1bh\x01\xb3\x1b\x1dt\x01\x1b-\x00\x1bF\x1b5\x1bW\x00\x1bh\x00\n' +
+			'\x1bl\x00\x1bQ\x10\x1bl\x00\x1bQ\x10\x1b\x1da\x00\x1b0\x1b\x1dt\x01\x1b-\x00\x1bF\x1b5\x1bW\x00\x1bh\x00\xc0\xc4\xc4\xc4\xc4\xc1\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xd9\x1b\x1dt\x01\x1b-\x00\x1bF\x1b5\x1bW\x00\x1bh\x00\n' +
+			'\x1bl\x00\x1bQ\x10\x1bl\x00\x1bQ\x10\x1b\x1da\x00     \x1b-\x01\x1bF\x1b5\x1bW\x00\x1bh\x00x\x1b-\x00\x1bF\x1b5\x1bW\x00\x1bh\x00 \x1b-\x00\x1bF\x1b4\x1bW\x00\x1bh\x00y\x1b-\x00\x1bF\x1b5\x1bW\x00\x1bh\x00 \x1b-\x00\x1bF\x1b5\x1bW\x01\x1bh\x01z\x1b-\x00\x1bF\x1b5\x1bW\x00\x1bh\x00\n' +
+			'\x1bl\x00\x1bQ\x10\x1bl\x00\x1bQ\x10\x1b\x1da\x01\x1bK\x04\x00\x80\xc0@\x00\x1bJ\x08\x1bl\x00\x1bQ\x10\x1bl\x00\x1bQ\x10\x1b\x1da\x00\x1b\x1dt\x01\x1b-\x00\x1bF\x1b5\x1bW\x00\x1bh\x00\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\xc4\x1b\x1dt\x01\x1b-\x00\x1bF\x1b5\x1bW\x00\x1bh\x00\n' +
+			'\x1bd\x03'
+		);
+		expect(result.width).toBe(192);
+		expect(result.height).toBe(176);
+	});
+});
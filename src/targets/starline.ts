@@ -0,0 +1,168 @@
+/*
+Copyright 2019 Open Foodservice System Consortium
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+	http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { StarTarget } from './star.ts';
+import type { Encoding, ParsedPrinter } from '../types.ts';
+import type { MonochromeImage } from '../image.ts';
+import { hrRule, vrRule, vrstartRule, vrstopRule, vrhrRule } from './rules.ts';
+import { CharacterGrid, type GridStyle } from './grid.ts';
+
+// convert byte values to a command string (one character per byte)
+const $ = (...bytes: number[]): string => String.fromCharCode(...bytes.map(b => b & 255));
+
+/**
+ * Star Line Mode target class for ReceiptLine commands (Star SP700, SP500, and compatible impact printers).
+ * The print head cannot move backwards, so each line is composed on a character grid and printed at line feed.
+ * Each character of the output is one byte to send to the printer.
+ */
+export class StarLineTarget extends StarTarget {
+	encoding: Encoding = 'cp437';
+	// maximum character scale supported by the printer (SP700: 2, TSP series in Line Mode: 6)
+	maxScale: number = 2;
+	// line buffer
+	grid: CharacterGrid = new CharacterGrid();
+	// impact printers have neither QR Code nor barcode commands
+	override nativeQrcode: boolean = false;
+	override nativeBarcode: boolean = false;
+
+	setMaxScale(scale: number): void {
+		this.maxScale = Math.min(Math.max(Math.floor(scale), 1), 6);
+	}
+
+	// start printing: ESC @ ESC SP n (ESC z n) (ESC 0) ESC GS t n
+	override async open(printer: ParsedPrinter): Promise<string> {
+		await super.open(printer);
+		this.encoding = printer.encoding;
+		this.grid.clear();
+		return '\x1b@\x1b \x00' + (this.spacing ? '\x1bz1' : '\x1b0') + this.codepage(printer.encoding);
+	}
+
+	// set absolute print position:
+	override async absolute(position: number): Promise<string> {
+		this.grid.position = position;
+		return '';
+	}
+
+	// set relative print position:
+	override async relative(position: number): Promise<string> {
+		this.grid.position += position;
+		return '';
+	}
+
+	// print horizontal rule:
+	override async hr(width: number): Promise<string> {
+		this.grid.rule(hrRule(width), 1);
+		return '';
+	}
+
+	// print vertical rules:
+	override async vr(widths: number[], height: number): Promise<string> {
+		this.grid.rule(vrRule(widths), height);
+		return '';
+	}
+
+	// start rules:
+	override async vrstart(widths: number[]): Promise<string> {
+		this.grid.rule(vrstartRule(widths), 1);
+		return '';
+	}
+
+	// stop rules:
+	override async vrstop(widths: number[]): Promise<string> {
+		this.grid.rule(vrstopRule(widths), 1);
+		return '';
+	}
+
+	// print vertical and horizontal rules:
+	override async vrhr(widths1: number[], widths2: number[], dl: number, dr: number): Promise<string> {
+		this.grid.rule(vrhrRule(widths1, widths2, dl, dr), 1);
+		return '';
+	}
+
+	// underline text:
+	override async ul(): Promise<string> {
+		this.grid.decoration.ul = true;
+		return '';
+	}
+
+	// emphasize text:
+	override async em(): Promise<string> {
+		this.grid.decoration.em = true;
+		return '';
+	}
+
+	// invert text (red on two-color ribbons):
+	override async iv(): Promise<string> {
+		this.grid.decoration.iv = true;
+		return '';
+	}
+
+	// scale up text:
+	override async wh(wh: number): Promise<string> {
+		this.grid.decoration.wh = wh;
+		return '';
+	}
+
+	// cancel text decoration:
+	override async normal(): Promise<string> {
+		this.grid.normal();
+		return '';
+	}
+
+	// print text:
+	override async text(text: string, encoding: Encoding): Promise<string> {
+		this.grid.text(this.arrayFrom(text, encoding), c => this.measureText(c, encoding));
+		return '';
+	}
+
+	// feed new line: ESC - n ESC E ESC F ESC 4 ESC 5 ESC W n ESC h n ESC GS t n ... LF
+	override async lf(): Promise<string> {
+		let rule = false;
+		let height = 1;
+		const style = (s: GridStyle): string => {
+			// switch code pages between rules and text
+			const r = s.rule !== rule ? (s.rule ? '\x1b\x1dt\x01' : this.codepage(this.encoding)) : '';
+			rule = s.rule;
+			height = Math.max(height, s.height);
+			return r + '\x1b-' + $(Number(s.ul)) + (s.em ? '\x1bE' : '\x1bF') + (s.iv ? '\x1b4' : '\x1b5') + '\x1bW' + $(s.width - 1) + '\x1bh' + $(s.height - 1);
+		};
+		const line = this.grid.flush(this.maxScale, style, (c, rule) => rule ? this.rule(c) : this.encode(c, this.encoding)) + '\n';
+		this.starHeight += Math.max(height * this.charWidth * 2, this.feedMinimum);
+		return line;
+	}
+
+	// print raster image: (ESC K n1 n2 d1 ... dk ESC J n) ...
+	protected override raster(img: MonochromeImage): string {
+		const stride = img.width + 7 >> 3;
+		let r = '';
+		// 8-dot bands, one byte per column with the top dot in the most significant bit
+		for (let y = 0; y < img.height; y += 8) {
+			let d = '';
+			for (let x = 0; x < img.width; x++) {
+				let b = 0;
+				for (let i = 0; i < 8 && y + i < img.height; i++) {
+					if ((img.data[(y + i) * stride + (x >> 3)] ?? 0) & 0x80 >> (x & 7)) {
+						b |= 0x80 >> i;
+					}
+				}
+				d += $(b);
+			}
+			r += '\x1bK' + $(img.width, img.width >> 8) + d + '\x1bJ\x08';
+		}
+		this.starHeight += Math.ceil(img.height / 8) * 8;
+		return r;
+	}
+}
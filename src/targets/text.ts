@@ -0,0 +1,232 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import { BaseTarget } from './base.ts';
+import type { Encoding, ParsedPrinter, QRCode, Barcode } from '../types.ts';
+import { generate as generateBarcode, type BarcodeSymbol } from '../barcode.ts';
+import { hrRule, vrRule, vrstartRule, vrstopRule, vrhrRule } from './rules.ts';
+import { CharacterGrid } from './grid.ts';
+import { decodeBase64 } from '@levischuck/tiny-encodings';
+import { readPngIHDR } from '@levischuck/tiny-png';
+
+/**
+ * Plain text target class for ReceiptLine commands.
+ * Each line of the content is `cpl` columns wide (wide characters take two columns),
+ * rules are box drawing characters or ASCII characters, and text decoration is dropped.
+ * Barcodes, QR Codes, and images are labelled placeholders.
+ */
+export class TextTarget extends BaseTarget {
+	charWidth: number = 12;
+	ascii: boolean = false;
+	textLines: number = 0;
+	// print area (unit: characters)
+	left: number = 0;
+	width: number = 48;
+	alignment: number = 1;
+	// line buffer
+	grid: CharacterGrid = new CharacterGrid();
+
+	setAscii(ascii: boolean): void {
+		this.ascii = ascii;
+	}
+
+	// start printing:
+	override async open(printer: ParsedPrinter): Promise<string> {
+		await super.open(printer);
+		this.charWidth = printer.charWidth;
+		this.textLines = 0;
+		this.left = 0;
+		this.width = this.cpl;
+		this.alignment = 1;
+		this.grid.clear();
+		return '';
+	}
+
+	// finish printing:
+	override async close(): Promise<string> {
+		return '';
+	}
+
+	// convert box drawing characters to ASCII characters:
+	protected rule(rule: string): string {
+		return this.ascii ? rule.replace(/[^ ]/g, c => c === '─' ? '-' : c === '│' ? '|' : '+') : rule;
+	}
+
+	// print line padded to cpl columns:
+	protected line(text: string, columns: number): string {
+		this.textLines++;
+		return text + ' '.repeat(Math.max(this.cpl - columns, 0)) + '\n';
+	}
+
+	// print aligned placeholder in the print area:
+	protected placeholder(label: string, encoding: Encoding): string {
+		// wrap at the width of the print area
+		const rows: { text: string, columns: number }[] = [];
+		let row = { text: '', columns: 0 };
+		for (const c of this.arrayFrom(label, encoding)) {
+			const w = this.measureText(c, encoding);
+			if (row.columns + w > this.width && row.columns > 0) {
+				rows.push(row);
+				row = { text: '', columns: 0 };
+			}
+			row.text += c;
+			row.columns += w;
+		}
+		rows.push(row);
+		return rows.map(r => {
+			const indent = this.left + Math.max(Math.floor((this.width - r.columns) * this.alignment / 2), 0);
+			return this.line(' '.repeat(indent) + r.text, indent + r.columns);
+		}).join('');
+	}
+
+	// set print area:
+	override async area(left: number, width: number, right: number): Promise<string> {
+		this.left = left;
+		this.width = width;
+		return '';
+	}
+
+	// set line alignment:
+	override async align(align: number): Promise<string> {
+		this.alignment = align;
+		return '';
+	}
+
+	// set absolute print position:
+	override async absolute(position: number): Promise<string> {
+		this.grid.position = position;
+		return '';
+	}
+
+	// set relative print position:
+	override async relative(position: number): Promise<string> {
+		this.grid.position += position;
+		return '';
+	}
+
+	// print horizontal rule:
+	override async hr(width: number): Promise<string> {
+		this.grid.rule(hrRule(width), 1);
+		return '';
+	}
+
+	// print vertical rules:
+	override async vr(widths: number[], height: number): Promise<string> {
+		this.grid.rule(vrRule(widths), height);
+		return '';
+	}
+
+	// start rules:
+	override async vrstart(widths: number[]): Promise<string> {
+		this.grid.rule(vrstartRule(widths), 1);
+		return '';
+	}
+
+	// stop rules:
+	override async vrstop(widths: number[]): Promise<string> {
+		this.grid.rule(vrstopRule(widths), 1);
+		return '';
+	}
+
+	// print vertical and horizontal rules:
+	override async vrhr(widths1: number[], widths2: number[], dl: number, dr: number): Promise<string> {
+		this.grid.rule(vrhrRule(widths1, widths2, dl, dr), 1);
+		return '';
+	}
+
+	// set line spacing and feed new line:
+	override async vrlf(vr: boolean): Promise<string> {
+		return await this.lf();
+	}
+
+	// cut paper: 8< - - -
+	override async cut(): Promise<string> {
+		return this.line(('8<' + ' -'.repeat(this.cpl)).slice(0, this.cpl), this.cpl);
+	}
+
+	// underline text:
+	override async ul(): Promise<string> {
+		this.grid.decoration.ul = true;
+		return '';
+	}
+
+	// emphasize text:
+	override async em(): Promise<string> {
+		this.grid.decoration.em = true;
+		return '';
+	}
+
+	// invert text:
+	override async iv(): Promise<string> {
+		this.grid.decoration.iv = true;
+		return '';
+	}
+
+	// scale up text:
+	override async wh(wh: number): Promise<string> {
+		this.grid.decoration.wh = wh;
+		return '';
+	}
+
+	// cancel text decoration:
+	override async normal(): Promise<string> {
+		this.grid.normal();
+		return '';
+	}
+
+	// print text:
+	override async text(text: string, encoding: Encoding): Promise<string> {
+		this.grid.text(this.arrayFrom(text, encoding), c => this.measureText(c, encoding));
+		return '';
+	}
+
+	// feed new line:
+	override async lf(): Promise<string> {
+		// scaled characters keep their columns with spaces
+		const columns = this.left + this.grid.line.length;
+		return this.line(' '.repeat(this.left) + this.grid.flush(1, () => '', (c, rule) => rule ? this.rule(c) : c), columns);
+	}
+
+	// insert commands:
+	override async command(command: string): Promise<string> {
+		return '';
+	}
+
+	// print image: [Image]
+	override async image(image: string): Promise<string> {
+		const { width, height } = readPngIHDR(decodeBase64(image));
+		return this.placeholder(`[Image ${width}x${height}]`, 'cp437');
+	}
+
+	// print QR Code: [QR Code: data]
+	override async qrcode(symbol: QRCode, encoding: Encoding): Promise<string> {
+		if (symbol.data.length === 0) {
+			return '';
+		}
+		return this.placeholder(`[QR Code: ${symbol.data}]`, encoding);
+	}
+
+	// print barcode: [Barcode type: data]
+	override async barcode(symbol: Barcode, encoding: Encoding): Promise<string> {
+		// skip data that the symbology cannot represent
+		const bar = generateBarcode(symbol as BarcodeSymbol);
+		if (!bar.widths) {
+			return '';
+		}
+		return this.placeholder(`[${bartype[symbol.type]}: ${bar.text ?? symbol.data}]`, encoding);
+	}
+
+	override calculatedWidth(): number {
+		return this.cpl;
+	}
+
+	override calculatedHeight(): number {
+		return this.textLines;
+	}
+}
+
+// barcode names
+const bartype: Record<Barcode['type'], string> = {
+	upc: 'UPC', ean: 'EAN', jan: 'JAN', code39: 'CODE39', itf: 'ITF', codabar: 'Codabar', nw7: 'NW-7', code93: 'CODE93', code128: 'CODE128'
+};
@@ -0,0 +1,35 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import { describe, expect, test } from 'bun:test';
+import { transform } from '../index.ts';
+import { indexedPng } from '@levischuck/tiny-png';
+import { decodeBase64, encodeBase64 } from '@levischuck/tiny-encodings';
+
+// 4 x 2 dots: ##.. / .##.
+const png = async (): Promise<string> => encodeBase64(await indexedPng(Uint8Array.from([1, 1, 0, 0, 0, 1, 1, 0]), 4, 2, [[255, 255, 255], [0, 0, 0]]));
+
+describe('WebPrntTarget', () => {
+	test('writes the request markup of StarWebPrintBuilder', async () => {
+		const doc = `{i:${await png()}}\n{x:\\x1bp\\x00\\xff}\n{c:01234565;o:upc,2,40}\n{c:123456789012;o:upc,2,40,hri}\n|Hi|`;
+		const result = await transform(doc, { cpl: 10, target: 'webprnt' });
+		expect(result.content).toBe(
+			'<initialization/><text codepage="cp437" international="usa" linespace="24" characterspace="0"/>' +
+			'<alignment position="center"/><bitimage width="4" height="2">AAAA/wAAAP////////////////8AAAD/AAAA//////8=</bitimage>' +
+			'<alignment position="center"/><rawdata>G3AA/w==</rawdata>' +
+			'<alignment position="center"/><barcode symbology="UPCE" width="width2" height="40" hri="false">0123456</barcode>' +
+			'<alignment position="center"/><barcode symbology="UPCA" width="width2" height="40" hri="true">12345678901</barcode>' +
+			'<alignment position="left"/><text>    Hi&#10;</text>'
+		);
+		expect(result.width).toBe(120);
+		expect(result.height).toBe(130);
+	});
+
+	test('writes images as canvas image data of black and white dots', async () => {
+		const result = await transform(`{i:${await png()}}`, { cpl: 10, target: 'webprnt' });
+		const data = result.content.match(/<bitimage width="4" height="2">([^<]*)<\/bitimage>/)?.[1] ?? '';
+		const black = [0, 0, 0, 255], white = [255, 255, 255, 255];
+		expect(Array.from(decodeBase64(data))).toEqual([...black, ...black, ...white, ...white, ...white, ...black, ...black, ...white]);
+	});
+});
@@ -0,0 +1,279 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import { BaseTarget } from './base.ts';
+import type { Encoding, ParsedPrinter, QRCode, Barcode } from '../types.ts';
+import { generate as generateBarcode, type BarcodeSymbol } from '../barcode.ts';
+import { decodePng, monochrome } from '../image.ts';
+import { hrRule, vrRule, vrstartRule, vrstopRule, vrhrRule } from './rules.ts';
+import { CharacterGrid, type GridStyle } from './grid.ts';
+import { decodeBase64, encodeBase64 } from '@levischuck/tiny-encodings';
+
+// escape XML special characters
+const escape = (text: string): string => text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' }[c] ?? c));
+
+/**
+ * Star WebPRNT target class for ReceiptLine commands.
+ * The content is the request markup that StarWebPrintBuilder creates, to send with StarWebPrintTrader.
+ * Lines are composed on the character grid, so rules are printed with box drawing characters.
+ */
+export class WebPrntTarget extends BaseTarget {
+	charWidth: number = 12;
+	margin: number = 0;
+	spacing: boolean = false;
+	encoding: Encoding = 'cp437';
+	webprntContent: string = '';
+	webprntHeight: number = 0;
+	lineMargin: number = 0;
+	feedMinimum: number = 24;
+	// line buffer
+	grid: CharacterGrid = new CharacterGrid();
+	// image conversion settings
+	gradient: boolean = true;
+	threshold: number = 128;
+
+	setGradient(gradient: boolean): void {
+		this.gradient = gradient;
+	}
+
+	setThreshold(threshold: number): void {
+		this.threshold = threshold;
+	}
+
+	// start printing: <initialization/> <text codepage international linespace characterspace/>
+	override async open(printer: ParsedPrinter): Promise<string> {
+		await super.open(printer);
+		this.charWidth = printer.charWidth;
+		this.margin = printer.margin;
+		this.spacing = printer.spacing;
+		this.encoding = printer.encoding;
+		this.webprntHeight = 0;
+		this.lineMargin = 0;
+		this.feedMinimum = this.linespace(false);
+		this.grid.clear();
+		this.webprntContent = `<initialization/><text codepage="${this.codepage(printer.encoding)}" international="usa" linespace="${this.feedMinimum}" characterspace="0"/>`;
+		return '';
+	}
+
+	// code page of the printer:
+	protected codepage(encoding: Encoding): string {
+		return codepages[encoding] ?? 'utf8';
+	}
+
+	// line spacing (24 or 32 dots):
+	protected linespace(vr: boolean): number {
+		return !vr && this.spacing ? 32 : 24;
+	}
+
+	// finish printing:
+	override async close(): Promise<string> {
+		return this.webprntContent;
+	}
+
+	// set print area:
+	override async area(left: number, width: number, right: number): Promise<string> {
+		this.lineMargin = this.margin + left;
+		return '';
+	}
+
+	// set line alignment: <alignment/>
+	override async align(align: number): Promise<string> {
+		this.webprntContent += `<alignment position="${['left', 'center', 'right'][align] ?? 'left'}"/>`;
+		return '';
+	}
+
+	// set absolute print position:
+	override async absolute(position: number): Promise<string> {
+		this.grid.position = position;
+		return '';
+	}
+
+	// set relative print position:
+	override async relative(position: number): Promise<string> {
+		this.grid.position += position;
+		return '';
+	}
+
+	// print horizontal rule:
+	override async hr(width: number): Promise<string> {
+		this.grid.rule(hrRule(width), 1);
+		return '';
+	}
+
+	// print vertical rules:
+	override async vr(widths: number[], height: number): Promise<string> {
+		this.grid.rule(vrRule(widths), height);
+		return '';
+	}
+
+	// start rules:
+	override async vrstart(widths: number[]): Promise<string> {
+		this.grid.rule(vrstartRule(widths), 1);
+		return '';
+	}
+
+	// stop rules:
+	override async vrstop(widths: number[]): Promise<string> {
+		this.grid.rule(vrstopRule(widths), 1);
+		return '';
+	}
+
+	// print vertical and horizontal rules:
+	override async vrhr(widths1: number[], widths2: number[], dl: number, dr: number): Promise<string> {
+		this.grid.rule(vrhrRule(widths1, widths2, dl, dr), 1);
+		return '';
+	}
+
+	// set line spacing and feed new line: <text linespace/>
+	override async vrlf(vr: boolean): Promise<string> {
+		const linespace = this.linespace(vr);
+		if (linespace !== this.feedMinimum) {
+			this.feedMinimum = linespace;
+			this.webprntContent += `<text linespace="${linespace}"/>`;
+		}
+		return await this.lf();
+	}
+
+	// cut paper: <cutpaper/>
+	override async cut(): Promise<string> {
+		this.webprntContent += '<cutpaper feed="true" type="partial"/>';
+		return '';
+	}
+
+	// underline text:
+	override async ul(): Promise<string> {
+		this.grid.decoration.ul = true;
+		return '';
+	}
+
+	// emphasize text:
+	override async em(): Promise<string> {
+		this.grid.decoration.em = true;
+		return '';
+	}
+
+	// invert text:
+	override async iv(): Promise<string> {
+		this.grid.decoration.iv = true;
+		return '';
+	}
+
+	// scale up text:
+	override async wh(wh: number): Promise<string> {
+		this.grid.decoration.wh = wh;
+		return '';
+	}
+
+	// cancel text decoration:
+	override async normal(): Promise<string> {
+		this.grid.normal();
+		return '';
+	}
+
+	// print text:
+	override async text(text: string, encoding: Encoding): Promise<string> {
+		this.grid.text(this.arrayFrom(text, encoding), c => this.measureText(c, encoding));
+		return '';
+	}
+
+	// feed new line: <text emphasis underline invert width height codepage/> <text>...&#10;</text>
+	override async lf(): Promise<string> {
+		const text = this.codepage(this.encoding);
+		let codepage = text;
+		let height = 1;
+		const style = (s: GridStyle): string => {
+			// switch code pages between rules and text
+			const c = s.rule ? 'cp437' : text;
+			const r = c !== codepage ? ` codepage="${c}"` : '';
+			codepage = c;
+			height = Math.max(height, s.height);
+			return `<text emphasis="${s.em}" underline="${s.ul}" invert="${s.iv}" width="${s.width}" height="${s.height}"${r}/>`;
+		};
+		const line = ' '.repeat(this.lineMargin) + this.grid.flush(6, style, c => escape(c)) + '&#10;';
+		// wrap characters between elements with text elements
+		this.webprntContent += line.replace(/(^|>)([^<]+)/g, '$1<text>$2</text>');
+		this.webprntHeight += Math.max(height * this.charWidth * 2, this.feedMinimum);
+		return '';
+	}
+
+	// insert commands: <rawdata>
+	override async command(command: string): Promise<string> {
+		this.webprntContent += `<rawdata>${encodeBase64(Uint8Array.from(command, c => c.charCodeAt(0) & 255))}</rawdata>`;
+		return '';
+	}
+
+	// print image: <bitimage>
+	override async image(image: string): Promise<string> {
+		const img = monochrome(await decodePng(decodeBase64(image)), this.gradient, this.threshold);
+		// canvas image data (RGBA) like createBitImageElement, black and white dots after conversion
+		const stride = img.width + 7 >> 3;
+		const data = new Uint8Array(img.width * img.height * 4);
+		for (let y = 0; y < img.height; y++) {
+			for (let x = 0; x < img.width; x++) {
+				const v = (img.data[y * stride + (x >> 3)]! & 0x80 >> (x & 7)) ? 0 : 255;
+				data.set([v, v, v, 255], (y * img.width + x) * 4);
+			}
+		}
+		this.webprntContent += `<bitimage width="${img.width}" height="${img.height}">${encodeBase64(data)}</bitimage>`;
+		this.webprntHeight += img.height;
+		return '';
+	}
+
+	// print QR Code: <qrcode>
+	override async qrcode(symbol: QRCode, encoding: Encoding): Promise<string> {
+		if (symbol.data.length === 0) {
+			return '';
+		}
+		this.webprntContent += `<qrcode model="model2" level="level_${symbol.level}" cell="${symbol.cell}">${escape(symbol.data)}</qrcode>`;
+		// estimated size for version 2
+		this.webprntHeight += symbol.cell * 25;
+		return '';
+	}
+
+	// print barcode: <barcode>
+	override async barcode(symbol: Barcode, encoding: Encoding): Promise<string> {
+		// skip data that the symbology cannot represent
+		const bar = generateBarcode(symbol as BarcodeSymbol);
+		if (!bar.widths) {
+			return '';
+		}
+		let d = symbol.data;
+		const short = /upc|[ej]an/.test(symbol.type) && d.length < 9;
+		switch (symbol.type) {
+			case 'upc':
+				d = d.slice(0, short ? 7 : 11);
+				break;
+			case 'ean':
+			case 'jan':
+				d = d.slice(0, short ? 7 : 12);
+				break;
+			default:
+				break;
+		}
+		const symbology = short ? (symbol.type === 'upc' ? 'UPCE' : 'JAN8') : bartype[symbol.type];
+		const width = `width${Math.min(Math.max(symbol.width, 2), 4)}`;
+		this.webprntContent += `<barcode symbology="${symbology}" width="${width}" height="${symbol.height}" hri="${symbol.hri}">${escape(d)}</barcode>`;
+		this.webprntHeight += symbol.height + (symbol.hri ? this.charWidth * 2 : 0);
+		return '';
+	}
+
+	override calculatedWidth(): number {
+		return this.cpl * this.charWidth;
+	}
+
+	override calculatedHeight(): number {
+		return this.webprntHeight;
+	}
+}
+
+// WebPRNT code pages
+const codepages: Partial<Record<Encoding, string>> = {
+	cp437: 'cp437', cp852: 'cp852', cp858: 'cp858', cp860: 'cp860', cp863: 'cp863', cp865: 'cp865', cp866: 'cp866', cp1252: 'cp1252',
+	cp932: 'cp932', shiftjis: 'cp932', tis620: 'cp874'
+};
+
+// barcode symbologies
+const bartype: Record<Barcode['type'], string> = {
+	upc: 'UPCA', ean: 'JAN13', jan: 'JAN13', code39: 'Code39', itf: 'ITF', codabar: 'NW7', nw7: 'NW7', code93: 'Code93', code128: 'Code128'
+};
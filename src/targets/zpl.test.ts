@@ -0,0 +1,28 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import { describe, expect, test } from 'bun:test';
+import { transform } from '../index.ts';
+
+describe('ZplTarget', () => {
+	test('writes label formats with native barcodes', async () => {
+		const doc = '{c:01234565;o:upc,2,40,hri}\n{c:123456789012;o:upc,2,40}\n|Hi|-|\n---\n=\n|x|';
+		const result = await transform(doc, { cpl: 10, target: 'zpl' });
+		expect(result.content).toBe(
+			'^XA^PW120^LL154^LH0,0^CI28\n' +
+			// UPC-E 01234565 is UPC-A 0 12345 00006 5
+			'^BY2,2.5,40^FO9,0^B9N,40,Y,N,Y^FH^FD1234500006^FS\n' +
+			'^BY2,2.5,40^FO0,66^BUN,40,N,N,N^FH^FD12345678901^FS\n' +
+			'^FO12,106^A0N,24,12^FH^FDHi^FS\n' +
+			'^FO84,106^A0N,24,12^FH^FD-^FS\n' +
+			'^FO0,141^GB120,2,2^FS\n' +
+			'^XZ\n' +
+			'^XA^PW120^LL24^LH0,0^CI28\n' +
+			'^FO54,0^A0N,24,12^FH^FDx^FS\n' +
+			'^XZ\n'
+		);
+		expect(result.width).toBe(120);
+		expect(result.height).toBe(24);
+	});
+});
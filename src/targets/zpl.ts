@@ -0,0 +1,362 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import { BaseTarget } from './base.ts';
+import type { Encoding, ParsedPrinter, QRCode, Barcode } from '../types.ts';
+import { generate as generateBarcode, upcetoa, type BarcodeSymbol } from '../barcode.ts';
+import { decodePng, monochrome } from '../image.ts';
+import { qrCode, EcLevel } from '@levischuck/tiny-qr';
+import { decodeBase64 } from '@levischuck/tiny-encodings';
+
+// escape field data (^FH with the default indicator _)
+const escape = (text: string): string => text.replace(/[_^~]/g, c => '_' + c.charCodeAt(0).toString(16).toUpperCase());
+
+// text field waiting for the line height
+type ZplText = {
+	x: number;
+	width: number; // unit: dots
+	scale: number;
+	height: number;
+	ul: boolean;
+	em: boolean;
+	iv: boolean;
+	text: string;
+};
+
+/**
+ * ZPL II target class for ReceiptLine commands (Zebra label printers).
+ * Everything is placed at absolute dot positions, each paper cut ends one label format and starts the next.
+ */
+export class ZplTarget extends BaseTarget {
+	charWidth: number = 12;
+	margin: number = 0;
+	spacing: boolean = false;
+	// finished label formats and the fields of the current label
+	zplContent: string = '';
+	zplHeight: number = 0;
+	lineMargin: number = 0;
+	lineAlign: number = 0;
+	lineWidth: number = 48;
+	lineHeight: number = 1;
+	lineText: ZplText[] = [];
+	textPosition: number = 0;
+	textScale: number = 1;
+	textDecoration = { ul: false, em: false, iv: false, height: 1 };
+	feedMinimum: number = 24;
+	// image conversion settings
+	gradient: boolean = true;
+	threshold: number = 128;
+
+	setGradient(gradient: boolean): void {
+		this.gradient = gradient;
+	}
+
+	setThreshold(threshold: number): void {
+		this.threshold = threshold;
+	}
+
+	// start printing:
+	override async open(printer: ParsedPrinter): Promise<string> {
+		await super.open(printer);
+		this.charWidth = printer.charWidth;
+		this.margin = printer.margin;
+		this.spacing = printer.spacing;
+		this.zplContent = '';
+		this.zplHeight = 0;
+		this.lineMargin = 0;
+		this.lineAlign = 0;
+		this.lineWidth = this.cpl;
+		this.lineHeight = 1;
+		this.lineText = [];
+		this.textPosition = 0;
+		await this.normal();
+		this.feedMinimum = this.charWidth * (this.spacing ? 2.5 : 2);
+		return '';
+	}
+
+	// finish printing: ^XA ... ^XZ
+	override async close(): Promise<string> {
+		return this.zplContent.length > 0 ? this.label() : '';
+	}
+
+	// finish label format: ^XA ^PW n ^LL n ^LH x,y ^CI28 ... ^XZ
+	protected label(): string {
+		const r = `^XA^PW${this.calculatedWidth()}^LL${Math.ceil(this.calculatedHeight())}^LH0,0^CI28\n${this.zplContent}^XZ\n`;
+		this.zplContent = '';
+		return r;
+	}
+
+	// add graphic box: ^FO x,y ^GB w,h,t ^FS
+	protected box(x: number, y: number, w: number, h: number): void {
+		const t = Math.min(w, h);
+		this.zplContent += `^FO${Math.round(x)},${Math.round(y)}^GB${Math.round(w)},${Math.round(h)},${Math.round(t)}^FS\n`;
+	}
+
+	// vertical line positions (unit: dots)
+	protected lines(widths: number[], offset: number = 0): number[] {
+		let p = this.lineMargin + offset;
+		return [p, ...widths.map(w => p += w + 1)].map(p => p * this.charWidth + this.charWidth / 2 - 1);
+	}
+
+	// set print area:
+	override async area(left: number, width: number, right: number): Promise<string> {
+		this.lineMargin = this.margin + left;
+		this.lineWidth = width;
+		return '';
+	}
+
+	// set line alignment:
+	override async align(align: number): Promise<string> {
+		this.lineAlign = align;
+		return '';
+	}
+
+	// set absolute print position:
+	override async absolute(position: number): Promise<string> {
+		this.textPosition = position;
+		return '';
+	}
+
+	// set relative print position:
+	override async relative(position: number): Promise<string> {
+		this.textPosition += position;
+		return '';
+	}
+
+	// print horizontal rule: ^GB
+	override async hr(width: number): Promise<string> {
+		this.box(this.lineMargin * this.charWidth, this.zplHeight + this.charWidth - 1, width * this.charWidth, 2);
+		return '';
+	}
+
+	// print vertical rules: ^GB
+	override async vr(widths: number[], height: number): Promise<string> {
+		const v = this.charWidth * 2 * height;
+		this.lines(widths).forEach(x => this.box(x, this.zplHeight, 2, v));
+		return '';
+	}
+
+	// start rules: ^GB
+	override async vrstart(widths: number[]): Promise<string> {
+		const w = this.charWidth, y = this.zplHeight;
+		const x = this.lines(widths);
+		this.box(x[0] ?? 0, y + w - 1, (x[x.length - 1] ?? 0) - (x[0] ?? 0) + 2, 2);
+		x.forEach(p => this.box(p, y + w - 1, 2, w + 1));
+		return '';
+	}
+
+	// stop rules: ^GB
+	override async vrstop(widths: number[]): Promise<string> {
+		const w = this.charWidth, y = this.zplHeight;
+		const x = this.lines(widths);
+		x.forEach(p => this.box(p, y, 2, w + 1));
+		this.box(x[0] ?? 0, y + w - 1, (x[x.length - 1] ?? 0) - (x[0] ?? 0) + 2, 2);
+		return '';
+	}
+
+	// print vertical and horizontal rules: ^GB
+	override async vrhr(widths1: number[], widths2: number[], dl: number, dr: number): Promise<string> {
+		const w = this.charWidth, y = this.zplHeight;
+		const x1 = this.lines(widths1, Math.max(-dl, 0));
+		const x2 = this.lines(widths2, Math.max(dl, 0));
+		const l = Math.min(x1[0] ?? 0, x2[0] ?? 0);
+		const r = Math.max(x1[x1.length - 1] ?? 0, x2[x2.length - 1] ?? 0);
+		x1.forEach(p => this.box(p, y, 2, w + 1));
+		this.box(l, y + w - 1, r - l + 2, 2);
+		x2.forEach(p => this.box(p, y + w - 1, 2, w + 1));
+		return '';
+	}
+
+	// set line spacing and feed new line:
+	override async vrlf(vr: boolean): Promise<string> {
+		this.feedMinimum = this.charWidth * (!vr && this.spacing ? 2.5 : 2);
+		return await this.lf();
+	}
+
+	// cut paper: ^XZ ^XA
+	override async cut(): Promise<string> {
+		const r = this.zplContent.length > 0 ? this.label() : '';
+		this.zplHeight = 0;
+		return r;
+	}
+
+	// underline text:
+	override async ul(): Promise<string> {
+		this.textDecoration.ul = true;
+		return '';
+	}
+
+	// emphasize text:
+	override async em(): Promise<string> {
+		this.textDecoration.em = true;
+		return '';
+	}
+
+	// invert text:
+	override async iv(): Promise<string> {
+		this.textDecoration.iv = true;
+		return '';
+	}
+
+	// scale up text:
+	override async wh(wh: number): Promise<string> {
+		const w = wh < 3 ? (wh & 1) + 1 : wh - 1;
+		const h = wh < 3 ? (wh >> 1 & 1) + 1 : wh - 1;
+		this.textScale = w;
+		this.textDecoration.height = h;
+		this.lineHeight = Math.max(this.lineHeight, h);
+		return '';
+	}
+
+	// cancel text decoration:
+	override async normal(): Promise<string> {
+		this.textScale = 1;
+		this.textDecoration = { ul: false, em: false, iv: false, height: 1 };
+		return '';
+	}
+
+	// print text:
+	override async text(text: string, encoding: Encoding): Promise<string> {
+		const width = this.measureText(text, encoding) * this.textScale * this.charWidth;
+		this.lineText.push({ x: (this.lineMargin + this.textPosition) * this.charWidth, width: width, scale: this.textScale, text: text, ...this.textDecoration });
+		this.textPosition += this.measureText(text, encoding) * this.textScale;
+		return '';
+	}
+
+	// feed new line: ^FO x,y ^A0N,h,w ^FR ^FH ^FD ... ^FS
+	override async lf(): Promise<string> {
+		const h = this.lineHeight * this.charWidth * 2;
+		for (const t of this.lineText) {
+			if (t.text.trim().length === 0 && !t.ul && !t.iv) {
+				continue;
+			}
+			// align text to the bottom of the line
+			const y = Math.round(this.zplHeight + h - t.height * this.charWidth * 2);
+			const th = t.height * this.charWidth * 2;
+			const font = `^A0N,${th},${t.scale * this.charWidth}`;
+			if (t.iv) {
+				this.box(t.x, y, t.width, th);
+			}
+			const field = `${font}${t.iv ? '^FR' : ''}^FH^FD${escape(t.text)}^FS\n`;
+			this.zplContent += `^FO${Math.round(t.x)},${y}${field}`;
+			// emphasized text is printed twice, one dot apart
+			if (t.em) {
+				this.zplContent += `^FO${Math.round(t.x) + 1},${y}${field}`;
+			}
+			if (t.ul) {
+				this.box(t.x, y + th - 2, t.width, 2);
+			}
+		}
+		this.zplHeight += Math.max(h, this.feedMinimum);
+		this.lineHeight = 1;
+		this.lineText = [];
+		this.textPosition = 0;
+		return '';
+	}
+
+	// insert commands:
+	override async command(command: string): Promise<string> {
+		this.zplContent += command;
+		return '';
+	}
+
+	// print image: ^FO x,y ^GFA,b,c,d,data ^FS
+	override async image(image: string): Promise<string> {
+		const img = monochrome(await decodePng(decodeBase64(image)), this.gradient, this.threshold);
+		const stride = img.width + 7 >> 3;
+		const hex = Array.from(img.data, b => b.toString(16).padStart(2, '0')).join('').toUpperCase();
+		this.zplContent += `^FO${this.x(img.width)},${Math.round(this.zplHeight)}^GFA,${img.data.length},${img.data.length},${stride},${hex}^FS\n`;
+		this.zplHeight += img.height;
+		return '';
+	}
+
+	// horizontal position of aligned content:
+	protected x(width: number): number {
+		return Math.max(Math.floor(this.lineMargin * this.charWidth + (this.lineWidth * this.charWidth - width) * this.lineAlign / 2), 0);
+	}
+
+	// print QR Code: ^FO x,y ^BQN,2,n ^FD e A,data ^FS
+	override async qrcode(symbol: QRCode, encoding: Encoding): Promise<string> {
+		if (symbol.data.length === 0) {
+			return '';
+		}
+		const qr = qrCode({
+			data: symbol.data,
+			ec: symbol.level === 'l' ? EcLevel.L : symbol.level === 'm' ? EcLevel.M : symbol.level === 'q' ? EcLevel.Q : EcLevel.H,
+		});
+		const q = symbol.quietZone ? symbol.cell * 4 : 0;
+		const size = qr.width * symbol.cell;
+		this.zplContent += `^FO${this.x(size + q * 2) + q},${Math.round(this.zplHeight) + q}^BQN,2,${symbol.cell}^FH^FD${symbol.level.toUpperCase()}A,${escape(symbol.data)}^FS\n`;
+		this.zplHeight += size + q * 2;
+		return '';
+	}
+
+	// print barcode: ^BY w,r,h ^FO x,y ^BC ^BE ^B8 ^BU ^B9 ^B3 ^B2 ^BK ^BA ^FD ... ^FS
+	override async barcode(symbol: Barcode, encoding: Encoding): Promise<string> {
+		// skip data that the symbology cannot represent
+		const bar = generateBarcode(symbol as BarcodeSymbol);
+		if (!bar.widths || bar.length === undefined) {
+			return '';
+		}
+		const h = symbol.height;
+		const i = symbol.hri ? 'Y' : 'N';
+		const x = this.x(bar.length);
+		const y = Math.round(this.zplHeight);
+		let d = symbol.data;
+		let field = '';
+		switch (symbol.type) {
+			case 'upc':
+				if (d.length < 9) {
+					// UPC-E is written as the manufacturer and product code of UPC-A
+					field = `^B9N,${h},${i},N,Y`;
+					d = upcetoa((bar.text ?? '').split('').map(c => Number(c))).slice(1, 11).join('');
+				}
+				else {
+					field = `^BUN,${h},${i},N,N`;
+					d = d.slice(0, 11);
+				}
+				break;
+			case 'ean':
+			case 'jan':
+				field = d.length < 9 ? `^B8N,${h},${i},N` : `^BEN,${h},${i},N`;
+				d = d.slice(0, d.length < 9 ? 7 : 12);
+				break;
+			case 'code39':
+				field = `^B3N,N,${h},${i},N`;
+				d = d.replace(/^\*?([^*]+)\*?$/, '$1');
+				break;
+			case 'itf':
+				field = `^B2N,${h},${i},N,N`;
+				break;
+			case 'codabar':
+			case 'nw7':
+				// start and stop characters are parameters
+				field = `^BKN,N,${h},${i},N,${d[0]?.toUpperCase()},${d[d.length - 1]?.toUpperCase()}`;
+				d = d.slice(1, -1);
+				break;
+			case 'code93':
+				field = `^BAN,${h},${i},N,N`;
+				break;
+			case 'code128':
+				field = `^BCN,${h},${i},N,N,A`;
+				break;
+			default:
+				break;
+		}
+		if (field) {
+			this.zplContent += `^BY${symbol.width},2.5,${h}^FO${x},${y}${field}^FH^FD${escape(d)}^FS\n`;
+		}
+		this.zplHeight += h + (symbol.hri ? this.charWidth * 2 + 2 : 0);
+		return '';
+	}
+
+	override calculatedWidth(): number {
+		return this.cpl * this.charWidth;
+	}
+
+	// length of the current label (unit: dots)
+	override calculatedHeight(): number {
+		return this.zplHeight;
+	}
+}
@@ -0,0 +1,62 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import { describe, expect, test } from 'bun:test';
+import { expand, expandTemplate } from './template.ts';
+import { parse, type TextColumnNode } from './ast.ts';
+
+// text of the columns of the first line
+const texts = (doc: string): string[] => (parse(doc).lines[0]?.columns ?? [])
+	.map(column => (column as TextColumnNode).runs.map(run => run.type === 'run' ? run.text : '\n').join(''));
+
+describe('expand', () => {
+	test('escapes special characters of text', () => {
+		const doc = expand('|{{name}}|{{price}}|', { name: ' _a|b^ ', price: '-' });
+		expect(doc).toBe('|~\\_a\\|b\\^~|\\-|');
+		expect(texts(doc)).toEqual([' _a|b^ ', '-']);
+	});
+
+	test('escapes horizontal rules, paper cuts, and line breaks', () => {
+		expect(expand('{{x}}', { x: '---' })).toBe('\\-\\-\\-');
+		expect(expand('{{x}}', { x: '=' })).toBe('\\=');
+		expect(expand('{{x}}', { x: 'a\nb' })).toBe('a\\nb');
+		expect(texts(expand('{{x}}', { x: '=' }))).toEqual(['=']);
+	});
+
+	test('escapes property values', () => {
+		const doc = expand('{c:{{code}};o:{{option}}}', { code: 'a;b}c\\', option: ' x ' });
+		expect(doc).toBe('{c:a\\;b\\}c\\\\;o:\\x20x\\x20}');
+		const column = parse(doc).lines[0]?.columns[0];
+		expect(column?.type === 'property' ? column.members : {}).toEqual({ code: 'a;b}c\\', option: ' x ' });
+	});
+
+	test('inserts raw values as written', () => {
+		expect(expand('|{{&raw}}|', { raw: '"bold"' })).toBe('|"bold"|');
+		expect(expand('{{& lines}}', { lines: 'a\n---' })).toBe('a\n---');
+	});
+
+	test('writes nothing for missing values', () => {
+		expect(expand('|{{a.b.c}}|{{n}}|', { a: {}, n: null })).toBe('|||');
+	});
+});
+
+describe('blocks', () => {
+	test('repeats lines of each block with escaped values', () => {
+		const result = expandTemplate('{{#each items}}\n|{{name}}|{{@index}}|\n{{/each}}\n=', { items: [{ name: 'a' }, { name: '`b' }] });
+		expect(result.doc).toBe('|a|0|\n|\\`b|1|\n=');
+		expect(result.lines).toEqual([2, 2, 4]);
+	});
+
+	test('selects parts of a line', () => {
+		expect(expand('{{#if on}}yes{{else}}no{{/if}}', { on: false })).toBe('no');
+		expect(expand('|{{#each tags}}[{{.}}]{{/each}}|', { tags: ['x', '~'] })).toBe('|[x][\\~]|');
+	});
+
+	test('reports unbalanced blocks', () => {
+		expect(() => expand('{{#each x}}', {})).toThrow('Unclosed {{#each x}} at line 1');
+		expect(() => expand('\n{{/if}}', {})).toThrow('Unexpected {{/if}} at line 2');
+		expect(() => expand('{{#with x}}{{/with}}', {})).toThrow('Unknown block {{#with}} at line 1');
+		expect(() => expand('{{else}}', {})).toThrow('Unexpected {{else}} at line 1');
+	});
+});
@@ -0,0 +1,325 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import { splitLines } from './parse.ts';
+import { escapeText, escapeProperty } from './format.ts';
+
+// Templates of ReceiptLine documents.
+// {{path}} inserts a value of the data escaped for its context (text or property value), and {{& path}} inserts it as written.
+// {{#each path}}...{{/each}} and {{#if path}}...{{else}}...{{/if}} on their own lines repeat or select lines,
+// and inside a line they repeat or select part of the line.
+
+/**
+ * Document expanded from a template, with the template line (from 1) of each document line.
+ */
+export type Expansion = {
+	doc: string;
+	lines: number[];
+};
+
+// block directives ({{#each path}}, {{#if path}}, {{else}}, {{/each}}, {{/if}})
+type Directive =
+	| { type: 'open', kind: 'each' | 'if', path: string, line: number }
+	| { type: 'else', line: number }
+	| { type: 'close', kind: string, line: number };
+
+// block of lines or block in a line
+type Block<T> = {
+	type: 'block';
+	kind: 'each' | 'if';
+	path: string;
+	line: number;
+	children: Tree<T>;
+	alternative: Tree<T>; // after {{else}}
+};
+
+type Tree<T> = (T | Block<T>)[];
+
+// part of a line
+type Part =
+	| { type: 'text', text: string }
+	| { type: 'value', path: string, raw: boolean, property: boolean };
+
+// template line
+type Line = {
+	type: 'line';
+	line: number;
+	parts: Tree<Part>;
+};
+
+// data of each block ({{.}} and {{@index}})
+type Scope = {
+	data: unknown;
+	index?: number;
+};
+
+/**
+ * Expand placeholders and blocks of a template with data.
+ * @param {string} template ReceiptLine document with placeholders
+ * @param {unknown} data values of placeholders (e.g., {{item.name}} is data.item.name)
+ * @returns {string} ReceiptLine document
+ */
+export function expand(template: string, data: unknown): string {
+	return expandTemplate(template, data).doc;
+}
+
+/**
+ * Expand placeholders and blocks of a template with data, keeping track of template lines.
+ * @param template ReceiptLine document with placeholders
+ * @param data values of placeholders
+ * @returns document and the template line of each document line
+ */
+export function expandTemplate(template: string, data: unknown): Expansion {
+	const items: (Line | Directive)[] = [];
+	splitLines(template).forEach((text, i) => {
+		const tokens = tokenize(text, i + 1);
+		const directives = tokens.filter(token => token.type === 'open' || token.type === 'else' || token.type === 'close');
+		// a directive on its own line encloses lines
+		if (directives.length === 1 && tokens.every(token => token.type !== 'value' && (token.type !== 'text' || /^[\t ]*$/.test(token.text)))) {
+			items.push(directives[0] as Directive);
+		}
+		else {
+			items.push({ type: 'line', line: i + 1, parts: nest(tokens) });
+		}
+	});
+	const result: Expansion = { doc: '', lines: [] };
+	const lines: string[] = [];
+	renderLines(nest(items), [{ data: data }], lines, result.lines);
+	result.doc = lines.join('\n');
+	return result;
+}
+
+/**
+ * Separate a template line into text, placeholders, and directives.
+ * @param text template line
+ * @param line line number
+ * @returns tokens
+ */
+function tokenize(text: string, line: number): (Part | Directive)[] {
+	const tokens: (Part | Directive)[] = [];
+	let r = '';
+	// inside property delimiters of the current column
+	let property = false;
+	for (let i = 0; i < text.length; i++) {
+		const c = text[i] ?? '';
+		// escape sequence
+		if (c === '\\') {
+			r += text.slice(i, i + 2);
+			i++;
+			continue;
+		}
+		// placeholder ('{{{' is a property delimiter followed by a placeholder)
+		if (text.startsWith('{{', i) && !text.startsWith('{{{', i)) {
+			const end = text.indexOf('}}', i + 2);
+			if (end >= 0) {
+				if (r.length > 0) {
+					tokens.push({ type: 'text', text: r });
+					r = '';
+				}
+				tokens.push(placeholder(text.slice(i + 2, end).trim(), property, line));
+				i = end + 1;
+				continue;
+			}
+		}
+		if (c === '{') {
+			property = true;
+		}
+		else if (c === '}' || c === '|') {
+			property = false;
+		}
+		r += c;
+	}
+	if (r.length > 0) {
+		tokens.push({ type: 'text', text: r });
+	}
+	return tokens;
+}
+
+/**
+ * Parse a placeholder.
+ * @param name text between '{{' and '}}'
+ * @param property true if the placeholder is in a property value
+ * @param line line number
+ * @returns value or directive
+ */
+function placeholder(name: string, property: boolean, line: number): Part | Directive {
+	const block = name.match(/^([#/])[\t ]*(\w*)[\t ]*(.*)$/);
+	if (block) {
+		const kind = block[2] ?? '';
+		if (block[1] === '/') {
+			return { type: 'close', kind: kind, line: line };
+		}
+		if (kind !== 'each' && kind !== 'if') {
+			throw new Error(`Unknown block {{#${kind}}} at line ${line}`);
+		}
+		return { type: 'open', kind: kind, path: block[3] ?? '', line: line };
+	}
+	if (name === 'else') {
+		return { type: 'else', line: line };
+	}
+	if (name.startsWith('&')) {
+		return { type: 'value', path: name.slice(1).trim(), raw: true, property: property };
+	}
+	return { type: 'value', path: name, raw: false, property: property };
+}
+
+/**
+ * Nest items in blocks.
+ * @param items lines or parts of a line, and directives
+ * @returns tree of blocks
+ */
+function nest<T extends { type: string }>(items: (T | Directive)[]): Tree<T> {
+	const root: Tree<T> = [];
+	// open blocks and the children being added to
+	const stack: { block: Block<T>, children: Tree<T> }[] = [];
+	let children = root;
+	for (const item of items) {
+		if (item.type === 'open') {
+			const directive = item as Directive & { type: 'open' };
+			const block: Block<T> = { type: 'block', kind: directive.kind, path: directive.path, line: directive.line, children: [], alternative: [] };
+			children.push(block);
+			stack.push({ block: block, children: children });
+			children = block.children;
+		}
+		else if (item.type === 'else') {
+			const open = stack[stack.length - 1];
+			if (!open || children === open.block.alternative) {
+				throw new Error(`Unexpected {{else}} at line ${(item as Directive).line}`);
+			}
+			children = open.block.alternative;
+		}
+		else if (item.type === 'close') {
+			const directive = item as Directive & { type: 'close' };
+			const open = stack.pop();
+			if (!open || open.block.kind !== directive.kind) {
+				throw new Error(`Unexpected {{/${directive.kind}}} at line ${directive.line}`);
+			}
+			children = open.children;
+		}
+		else {
+			children.push(item as T);
+		}
+	}
+	const open = stack.pop();
+	if (open) {
+		throw new Error(`Unclosed {{#${open.block.kind} ${open.block.path}}} at line ${open.block.line}`);
+	}
+	return root;
+}
+
+/**
+ * Render template lines.
+ * @param tree lines and blocks of lines
+ * @param scopes data of the blocks (the innermost is the last)
+ * @param result document lines to append
+ * @param lines template line of each document line to append
+ */
+function renderLines(tree: Tree<Line>, scopes: Scope[], result: string[], lines: number[]): void {
+	for (const node of tree) {
+		if (node.type === 'block') {
+			expandBlock(node, scopes, (children, s) => renderLines(children, s, result, lines));
+		}
+		else {
+			// raw values may have line breaks
+			splitLines(renderParts(node.parts, scopes)).forEach(text => {
+				result.push(text);
+				lines.push(node.line);
+			});
+		}
+	}
+}
+
+/**
+ * Render parts of a template line.
+ * @param tree parts and blocks in the line
+ * @param scopes data of the blocks (the innermost is the last)
+ * @returns line
+ */
+function renderParts(tree: Tree<Part>, scopes: Scope[]): string {
+	let r = '';
+	for (const node of tree) {
+		switch (node.type) {
+			case 'block':
+				expandBlock(node, scopes, (children, s) => r += renderParts(children, s));
+				break;
+			case 'value': {
+				const value = stringValue(lookup(scopes, node.path));
+				r += node.raw ? value : escapeValue(value, node.property);
+				break;
+			}
+			default:
+				r += node.text;
+				break;
+		}
+	}
+	return r;
+}
+
+/**
+ * Expand a block with data.
+ * @param block each or if block
+ * @param scopes data of the blocks (the innermost is the last)
+ * @param render function to render the children with data
+ */
+function expandBlock<T>(block: Block<T>, scopes: Scope[], render: (children: Tree<T>, scopes: Scope[]) => void): void {
+	const value = lookup(scopes, block.path);
+	const items = Array.isArray(value) ? value : [];
+	if (block.kind === 'each' && items.length > 0) {
+		items.forEach((item, index) => render(block.children, [...scopes, { data: item, index: index }]));
+	}
+	else if (block.kind === 'if' && (Array.isArray(value) ? items.length > 0 : !!value)) {
+		render(block.children, scopes);
+	}
+	else {
+		render(block.alternative, scopes);
+	}
+}
+
+/**
+ * Find a value by path.
+ * @param scopes data of the blocks (the innermost is the last)
+ * @param path names separated by '.' ('.' or 'this' for the data of the block, '@index' for the index of each)
+ * @returns value, or undefined if not found
+ */
+function lookup(scopes: Scope[], path: string): unknown {
+	const scope = scopes[scopes.length - 1];
+	if (path === '.' || path === 'this') {
+		return scope?.data;
+	}
+	if (path === '@index') {
+		return scope?.index;
+	}
+	const names = path.split('.');
+	const has = (a: unknown, name: string): a is Record<string, unknown> => a !== null && typeof a === 'object' && name in a;
+	// the innermost data that has the first name
+	const data = scopes.findLast(s => has(s.data, names[0] ?? ''))?.data;
+	return names.reduce((a: unknown, name) => has(a, name) ? a[name] : undefined, data);
+}
+
+/**
+ * Convert a value to a string.
+ * @param value value of a placeholder
+ * @returns string, empty for undefined and null
+ */
+function stringValue(value: unknown): string {
+	return value === undefined || value === null ? '' : String(value);
+}
+
+/**
+ * Escape a value for its context.
+ * @param value value of a placeholder
+ * @param property true if the placeholder is in a property value
+ * @returns escaped value
+ */
+function escapeValue(value: string, property: boolean): string {
+	if (property) {
+		return escapeProperty(value);
+	}
+	return escapeText(value)
+		// horizontal rules and paper cut
+		.replace(/[-=]/g, '\\$&')
+		// spaces that may be at both ends of the column
+		.replace(/ /g, '~')
+		.replace(/\r\n|\r|\n/g, '\\n');
+}
@@ -0,0 +1,100 @@
+/*
+Copyright 2026 Levi Schuck
+*/
+
+import type { Encoding } from './types.ts';
+import { encodable } from './encoding.ts';
+
+// Transliteration of characters that the code page cannot represent to the closest printable ones.
+// Characters that have no replacement are left to the target (e.g., '?' of printer command targets).
+
+/**
+ * Substituted character and its replacement, with the number of substitutions.
+ */
+export type Substitution = {
+	character: string;
+	replacement: string;
+	count: number;
+};
+
+// punctuation, symbols, spaces, and letters without decomposition
+const common: Record<string, string> = {
+	'‐': '-', '‑': '-', '‒': '-', '–': '-', '—': '-', '―': '-', '−': '-',
+	'‘': "'", '’': "'", '‚': ',', '‛': "'", '′': "'", '“': '"', '”': '"', '„': '"', '‟': '"', '″': '"',
+	'«': '"', '»': '"', '‹': '<', '›': '>', '…': '...', '•': '*', '·': '.', '¦': '|',
+	'€': 'EUR', '£': 'GBP', '¥': 'JPY', '₩': 'KRW', '₹': 'INR', '₽': 'RUB', '¢': 'c',
+	'©': '(C)', '®': '(R)', '™': 'TM', '×': 'x', '÷': '/', '±': '+/-', '¼': '1/4', '½': '1/2', '¾': '3/4',
+	'\u00a0': ' ', '\u2002': ' ', '\u2003': ' ', '\u2009': ' ', '\u202f': ' ', '\u200b': '', '\u200d': '', '\ufe0f': '',
+	'ß': 'ss', 'Æ': 'AE', 'æ': 'ae', 'Œ': 'OE', 'œ': 'oe', 'Ø': 'O', 'ø': 'o', 'Ł': 'L', 'ł': 'l',
+	'Đ': 'D', 'đ': 'd', 'Ð': 'D', 'ð': 'd', 'Þ': 'TH', 'þ': 'th', 'ı': 'i'
+};
+
+// Cyrillic letters for Latin code pages
+const cyrillic: Record<string, string> = {
+	'А': 'A', 'Б': 'B', 'В': 'V', 'Г': 'G', 'Д': 'D', 'Е': 'E', 'Ё': 'E', 'Ж': 'Zh', 'З': 'Z', 'И': 'I', 'Й': 'J',
+	'К': 'K', 'Л': 'L', 'М': 'M', 'Н': 'N', 'О': 'O', 'П': 'P', 'Р': 'R', 'С': 'S', 'Т': 'T', 'У': 'U', 'Ф': 'F',
+	'Х': 'Kh', 'Ц': 'Ts', 'Ч': 'Ch', 'Ш': 'Sh', 'Щ': 'Shch', 'Ъ': '', 'Ы': 'Y', 'Ь': '', 'Э': 'E', 'Ю': 'Yu', 'Я': 'Ya',
+	'а': 'a', 'б': 'b', 'в': 'v', 'г': 'g', 'д': 'd', 'е': 'e', 'ё': 'e', 'ж': 'zh', 'з': 'z', 'и': 'i', 'й': 'j',
+	'к': 'k', 'л': 'l', 'м': 'm', 'н': 'n', 'о': 'o', 'п': 'p', 'р': 'r', 'с': 's', 'т': 't', 'у': 'u', 'ф': 'f',
+	'х': 'kh', 'ц': 'ts', 'ч': 'ch', 'ш': 'sh', 'щ': 'shch', 'ъ': '', 'ы': 'y', 'ь': '', 'э': 'e', 'ю': 'yu', 'я': 'ya',
+	'Є': 'Ye', 'є': 'ye', 'І': 'I', 'і': 'i', 'Ї': 'Yi', 'ї': 'yi', 'Ґ': 'G', 'ґ': 'g', 'Ў': 'U', 'ў': 'u'
+};
+
+// Ukrainian and Belarusian letters for code page 866
+const cp866: Record<string, string> = {
+	'І': 'I', 'і': 'i', 'Ґ': 'Г', 'ґ': 'г', 'ʼ': "'"
+};
+
+// transliteration tables of code pages
+const tables: Partial<Record<Encoding, Record<string, string>>> = {
+	cp437: { ...cyrillic, ...common },
+	cp852: { ...cyrillic, ...common },
+	cp858: { ...cyrillic, ...common },
+	cp860: { ...cyrillic, ...common },
+	cp863: { ...cyrillic, ...common },
+	cp865: { ...cyrillic, ...common },
+	cp866: { ...common, ...cp866 },
+	cp1252: { ...cyrillic, ...common },
+	tis620: { ...cyrillic, ...common },
+	multilingual: { ...common, ...cp866 }
+};
+
+/**
+ * Replace characters that the code page cannot represent with the closest printable ones.
+ * Overrides are applied to any character, then the table of the code page, then letters without accents.
+ * @param text text to transliterate
+ * @param encoding code page
+ * @param overrides replacements of characters that take precedence over the tables
+ * @param substitutions substitutions made, updated if given
+ * @returns transliterated text
+ */
+export function transliterate(text: string, encoding: Encoding, overrides: Record<string, string> = {}, substitutions?: Substitution[]): string {
+	const table = tables[encoding] ?? common;
+	let r = '';
+	for (const c of text) {
+		let replacement: string | undefined = overrides[c];
+		if (replacement === undefined && !encodable(c, encoding)) {
+			replacement = table[c];
+			if (replacement === undefined) {
+				// remove accents
+				const d = c.normalize('NFD').replace(/\p{M}/gu, '');
+				replacement = d.length > 0 && d !== c && Array.from(d).every(e => encodable(e, encoding)) ? d : undefined;
+			}
+		}
+		if (replacement === undefined || replacement === c) {
+			r += c;
+			continue;
+		}
+		r += replacement;
+		if (substitutions) {
+			const s = substitutions.find(s => s.character === c);
+			if (s) {
+				s.count++;
+			}
+			else {
+				substitutions.push({ character: c, replacement: replacement, count: 1 });
+			}
+		}
+	}
+	return r;
+}
@@ -8,6 +8,7 @@ export type ParsedPrinter = {
 	spacing: boolean;
 	margin: number;
 	marginRight: number;
+	transliterate?: Record<string, string>; // overrides of transliteration, if enabled
 	target: BaseTargetInterface;
 };
 
@@ -44,6 +45,9 @@ export interface BaseTargetInterface {
 	barcode(symbol: Barcode, encoding: Encoding): Promise<string>;
 	calculatedWidth(): number;
 	calculatedHeight(): number;
+	contentBytes(content: string): Uint8Array;
+	printable(c: string): boolean;
+	barcodeFits(symbol: Barcode, width: number): boolean;
 };
 
 export type Printer = {
@@ -54,9 +58,17 @@ export type Printer = {
 	target?: string | BaseTargetInterface;
 	margin?: number;
 	marginRight?: number;
+	transliterate?: boolean | Record<string, string>;
 	[propName: string]: any;
 };
 
+export type Diagnostic = {
+	line: number; // line number in the document (from 1)
+	severity: 'error' | 'warning';
+	code: string;
+	message: string;
+};
+
 // QR Code is a registered trademark of DENSO WAVE INCORPORATED.
 export type QRCode = {
 	data: string;